@@ -0,0 +1,81 @@
+import { WithResponse } from './types';
+
+/**
+ * A promise for an API result that also gives access to the raw HTTP
+ * response. Awaiting it behaves like a normal promise; use `withResponse()` or
+ * `asResponse()` to read the status, headers or request ID.
+ */
+export class APIPromise<T> extends Promise<T> {
+  private responsePromise: Promise<any>;
+  private parseResponse: (response: any) => Promise<T>;
+  private parsedPromise?: Promise<T>;
+
+  constructor(responsePromise: Promise<any>, parseResponse: (response: any) => Promise<T>) {
+    super(resolve => resolve(null as any));
+    this.responsePromise = responsePromise;
+    this.parseResponse = parseResponse;
+    // Failures surface when the result is awaited; don't report them early
+    this.responsePromise.catch(() => undefined);
+  }
+
+  /**
+   * Create a promise for a transformed result of the same response.
+   * @internal
+   */
+  _thenUnwrap<U>(transform: (data: T, response: any) => U | Promise<U>): APIPromise<U> {
+    return new APIPromise(
+      this.responsePromise,
+      async response => transform(await this.parseResponse(response), response)
+    );
+  }
+
+  /**
+   * Resolve to the raw response without reading its body.
+   */
+  asResponse(): Promise<any> {
+    return this.responsePromise;
+  }
+
+  /**
+   * Resolve to the parsed result together with the raw response and the
+   * server's request ID.
+   */
+  async withResponse(): Promise<WithResponse<T>> {
+    const [data, response] = await Promise.all([this.parse(), this.asResponse()]);
+    return { data, response, requestId: getRequestId(response) };
+  }
+
+  private parse(): Promise<T> {
+    if (!this.parsedPromise) {
+      this.parsedPromise = this.responsePromise.then(this.parseResponse);
+    }
+    return this.parsedPromise;
+  }
+
+  then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.parse().then(onfulfilled, onrejected);
+  }
+
+  catch<TResult = never>(
+    onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | null
+  ): Promise<T | TResult> {
+    return this.parse().catch(onrejected);
+  }
+
+  finally(onfinally?: (() => void) | null): Promise<T> {
+    return this.parse().finally(onfinally);
+  }
+}
+
+/**
+ * Read the `x-request-id` header from a response.
+ */
+export function getRequestId(response: any): string | undefined {
+  if (!response || !response.headers || typeof response.headers.get !== 'function') {
+    return undefined;
+  }
+  return response.headers.get('x-request-id') || undefined;
+}
@@ -0,0 +1,441 @@
+#!/usr/bin/env node
+/**
+ * The `helpingai` command.
+ */
+
+import { promises as fs } from 'fs';
+import { createInterface } from 'readline';
+import { HAI } from './client';
+import { Conversation } from './conversations';
+import { HAIErrorCode, hasErrorCode } from './errors';
+import { MockServer } from './server';
+import { ChatCompletionStream } from './stream';
+import { ConversationParams, MockServerOptions } from './types';
+
+const DEFAULT_MODEL = 'Helpingai3-raw';
+
+/** Exit codes */
+const EXIT_OK = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+/**
+ * Exit codes for API errors, checked in order. Subclasses share the code of
+ * the first listed class they extend.
+ */
+const ERROR_EXIT_CODES: Array<[HAIErrorCode, number]> = [
+  [HAIErrorCode.UserAbort, 130],
+  [HAIErrorCode.Authentication, 3],
+  [HAIErrorCode.InvalidRequest, 4],
+  [HAIErrorCode.NotFound, 4],
+  [HAIErrorCode.RateLimit, 5],
+  [HAIErrorCode.ServiceUnavailable, 6],
+  [HAIErrorCode.Server, 6],
+  [HAIErrorCode.Timeout, 7],
+  [HAIErrorCode.Connection, 7]
+];
+
+const BOOLEAN_FLAGS = ['help', 'json', 'hide-think', 'show-think', 'interactive', 'no-stream'];
+const FLAG_ALIASES: Record<string, string> = { h: 'help', m: 'model', s: 'system', i: 'interactive' };
+
+const USAGE = `Usage: helpingai <command> [options]
+
+Commands:
+  chat [prompt]             Send a prompt and stream the reply. Reads the prompt
+                            from stdin when it is "-" or stdin is piped, and
+                            starts an interactive session otherwise
+  models list               List the available models
+  models retrieve <id>      Show one model
+  serve-mock                Start a local stand-in for the HelpingAI API
+
+Options:
+  --api-key <key>           API key (default: $HAI_API_KEY; not needed for models)
+  --base-url <url>          API base URL (default: $HAI_BASE_URL or the HelpingAI API)
+  --json                    Print the full JSON response
+
+Options for chat:
+  -m, --model <id>          Model to use (default: ${DEFAULT_MODEL})
+  -s, --system <text>       System prompt
+  -i, --interactive         Start an interactive session even when stdin is piped
+  --hide-think              Leave out <think> blocks (default)
+  --show-think              Print <think> blocks as they arrive
+  --temperature <n>         Sampling temperature
+  --max-tokens <n>          Maximum tokens in each reply
+  --no-stream               Print each reply once it is complete
+
+Options for serve-mock:
+  --port <n>          Port to listen on (default: 8787, 0 for any free port)
+  --host <host>       Host to bind (default: 127.0.0.1)
+  --models <ids>      Comma-separated model IDs to serve
+  --script <file>     JSON file with an array of replies to use in order
+  --latency <ms>      Delay before each response
+  --chunk-delay <ms>  Delay between streamed chunks
+  --error-rate <0-1>  Fraction of chat requests that fail
+  --error-status <n>  Status of injected errors (default: 500)
+  --api-key <key>     Require this API key
+
+Exit codes: 0 success, 1 other errors, 2 usage errors, 3 authentication,
+4 invalid request or model, 5 rate limited, 6 server errors, 7 connection
+errors or timeouts, 130 aborted.
+`;
+
+class UsageError extends Error {}
+
+/**
+ * Options for `main`. They live here rather than in types.ts because they use
+ * Node's stream types, which the rest of the SDK does not depend on.
+ */
+export interface CLIOptions {
+  stdin?: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout?: NodeJS.WritableStream;
+  stderr?: NodeJS.WritableStream;
+  env?: Record<string, string | undefined>; // Default: process.env
+  signal?: AbortSignal; // Stops long-running commands such as `serve-mock`
+}
+
+interface IO {
+  stdin: NodeJS.ReadableStream & { isTTY?: boolean };
+  stdout: NodeJS.WritableStream;
+  stderr: NodeJS.WritableStream;
+  env: Record<string, string | undefined>;
+  signal?: AbortSignal;
+}
+
+interface ParsedArgs {
+  positional: string[];
+  flags: Record<string, string | true>;
+}
+
+/**
+ * Split arguments into positional values and `--flag [value]` options.
+ * Flags listed in `booleans` never take a value; `aliases` maps short names
+ * such as `m` to the flag they stand for.
+ */
+export function parseArgs(argv: string[], booleans: string[] = [], aliases: Record<string, string> = {}): ParsedArgs {
+  const parsed: ParsedArgs = { positional: [], flags: {} };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--') {
+      parsed.positional.push(...argv.slice(i + 1));
+      break;
+    }
+    if (!arg.startsWith('-') || arg === '-') {
+      parsed.positional.push(arg);
+      continue;
+    }
+    const [flag, inline] = arg.replace(/^--?/, '').split(/=(.*)/s);
+    const name = aliases[flag] || flag;
+    if (inline !== undefined) {
+      parsed.flags[name] = inline;
+    } else if (booleans.includes(name) || i + 1 >= argv.length || argv[i + 1].startsWith('--')) {
+      parsed.flags[name] = true;
+    } else {
+      parsed.flags[name] = argv[++i];
+    }
+  }
+  return parsed;
+}
+
+function stringFlag(flags: ParsedArgs['flags'], name: string): string | undefined {
+  const value = flags[name];
+  if (value === true) {
+    throw new UsageError(`--${name} needs a value`);
+  }
+  return value;
+}
+
+function numberFlag(flags: ParsedArgs['flags'], name: string): number | undefined {
+  const value = stringFlag(flags, name);
+  if (value === undefined) {
+    return undefined;
+  }
+  const number = Number(value);
+  if (value.trim() === '' || !isFinite(number)) {
+    throw new UsageError(`--${name} must be a number`);
+  }
+  return number;
+}
+
+function waitForStop(signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    const stop = () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      resolve();
+    };
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+    if (signal) {
+      if (signal.aborted) {
+        stop();
+      }
+      signal.addEventListener('abort', stop, { once: true });
+    }
+  });
+}
+
+/**
+ * The exit code for an error: the first match in `ERROR_EXIT_CODES`, or 1.
+ */
+export function exitCodeFor(error: unknown): number {
+  for (const [code, exitCode] of ERROR_EXIT_CODES) {
+    if (hasErrorCode(error, code)) {
+      return exitCode;
+    }
+  }
+  return EXIT_FAILURE;
+}
+
+function readStdin(stdin: NodeJS.ReadableStream): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let text = '';
+    stdin.setEncoding('utf8');
+    stdin.on('data', chunk => { text += chunk; });
+    stdin.on('end', () => resolve(text));
+    stdin.on('error', reject);
+  });
+}
+
+/**
+ * Build the client from flags and the environment. `/models` is public, so
+ * the models commands pass `keyRequired = false` and work without a key.
+ */
+function createClient(flags: ParsedArgs['flags'], io: IO, keyRequired: boolean = true): HAI {
+  const apiKey = stringFlag(flags, 'api-key') || io.env.HAI_API_KEY;
+  return new HAI({
+    apiKey: apiKey || (keyRequired ? undefined : 'unused'),
+    baseURL: stringFlag(flags, 'base-url') || io.env.HAI_BASE_URL
+  });
+}
+
+/**
+ * Send one message and print the reply: streamed as it arrives, or once
+ * complete with `--no-stream` or `--json`. `onStream` receives the stream so
+ * the caller can abort it.
+ */
+async function sendTurn(
+  conversation: Conversation,
+  content: string,
+  flags: ParsedArgs['flags'],
+  io: IO,
+  onStream?: (stream: ChatCompletionStream) => void
+): Promise<void> {
+  if (flags.json || flags['no-stream']) {
+    const completion = await conversation.send(content, { signal: io.signal });
+    const message = completion.choices[0] && completion.choices[0].message;
+    io.stdout.write(flags.json ? `${JSON.stringify(completion, null, 2)}\n` : `${(message && message.content) || ''}\n`);
+    return;
+  }
+
+  const stream = await conversation.stream(content, { signal: io.signal });
+  if (onStream) {
+    onStream(stream);
+  }
+  stream.on('content', delta => io.stdout.write(delta));
+  await stream.finalChatCompletion();
+  io.stdout.write('\n');
+}
+
+/**
+ * Read messages line by line and reply to each, keeping the history.
+ * `/clear` starts a new conversation and `/exit` ends the session, as does
+ * Ctrl-C, which first stops a reply that is still streaming.
+ */
+async function repl(createConversation: () => Conversation, flags: ParsedArgs['flags'], io: IO): Promise<number> {
+  const terminal = Boolean(io.stdin.isTTY);
+  const rl = createInterface({ input: io.stdin, output: io.stdout, terminal });
+  let active: ChatCompletionStream | undefined;
+  rl.on('SIGINT', () => {
+    if (active) {
+      active.abort();
+    }
+    rl.close();
+  });
+  rl.setPrompt('> ');
+  if (terminal) {
+    rl.prompt();
+  }
+
+  let conversation = createConversation();
+  for await (const line of rl) {
+    const input = line.trim();
+    if (input === '/exit' || input === '/quit') {
+      break;
+    }
+    if (input === '/clear') {
+      conversation = createConversation();
+    } else if (input) {
+      try {
+        await sendTurn(conversation, input, flags, io, stream => { active = stream; });
+      } catch (error: any) {
+        if (hasErrorCode(error, HAIErrorCode.UserAbort)) {
+          io.stdout.write('\n');
+        } else {
+          io.stderr.write(`helpingai: ${error.message}\n`);
+        }
+      } finally {
+        active = undefined;
+      }
+    }
+    if (terminal) {
+      rl.prompt();
+    }
+  }
+  rl.close();
+  return EXIT_OK;
+}
+
+async function chat(args: ParsedArgs, io: IO): Promise<number> {
+  const { flags } = args;
+  if (flags['hide-think'] && flags['show-think']) {
+    throw new UsageError('--hide-think and --show-think cannot be used together');
+  }
+  const model = stringFlag(flags, 'model') || DEFAULT_MODEL;
+  const system = stringFlag(flags, 'system');
+  const params: ConversationParams = {
+    hideThink: !flags['show-think'],
+    temperature: numberFlag(flags, 'temperature'),
+    max_tokens: numberFlag(flags, 'max-tokens')
+  };
+
+  let prompt = args.positional.join(' ');
+  const interactive = Boolean(flags.interactive) || (!prompt && Boolean(io.stdin.isTTY));
+  if (!interactive && (prompt === '-' || !prompt)) {
+    prompt = (await readStdin(io.stdin)).trim();
+  }
+  if (!interactive && !prompt) {
+    throw new UsageError('No prompt given');
+  }
+
+  const client = createClient(flags, io);
+  const createConversation = () => client.conversations.create({ model, system, params });
+  if (interactive) {
+    return repl(createConversation, flags, io);
+  }
+  await sendTurn(createConversation(), prompt, flags, io);
+  return EXIT_OK;
+}
+
+async function models(args: ParsedArgs, io: IO): Promise<number> {
+  const { flags } = args;
+  const action = args.positional.shift();
+  if (action !== 'list' && action !== 'retrieve') {
+    throw new UsageError('Use "models list" or "models retrieve <id>"');
+  }
+  const id = args.positional.shift();
+  if (action === 'retrieve' && !id) {
+    throw new UsageError('models retrieve needs a model ID');
+  }
+
+  const client = createClient(flags, io, false);
+  if (action === 'list') {
+    const list = await client.models.list();
+    if (flags.json) {
+      io.stdout.write(`${JSON.stringify(list, null, 2)}\n`);
+    } else {
+      const width = Math.max(...list.map(model => model.id.length), 0);
+      for (const model of list) {
+        io.stdout.write(`${model.id.padEnd(width)}  ${model.contextWindow || ''}\n`);
+      }
+    }
+    return EXIT_OK;
+  }
+
+  const model = await client.models.retrieve(id as string);
+  if (flags.json) {
+    io.stdout.write(`${JSON.stringify(model, null, 2)}\n`);
+  } else {
+    for (const [key, value] of Object.entries(model)) {
+      if (value !== undefined) {
+        io.stdout.write(`${key}: ${typeof value === 'object' ? JSON.stringify(value) : value}\n`);
+      }
+    }
+  }
+  return EXIT_OK;
+}
+
+async function serveMock(args: ParsedArgs, io: IO): Promise<number> {
+  const { flags } = args;
+  const serverOptions: MockServerOptions = {
+    port: numberFlag(flags, 'port'),
+    host: stringFlag(flags, 'host'),
+    latency: numberFlag(flags, 'latency'),
+    chunkDelay: numberFlag(flags, 'chunk-delay'),
+    errorRate: numberFlag(flags, 'error-rate'),
+    errorStatus: numberFlag(flags, 'error-status'),
+    apiKey: stringFlag(flags, 'api-key')
+  };
+  if (serverOptions.port === undefined) {
+    serverOptions.port = 8787;
+  }
+  const models = stringFlag(flags, 'models');
+  if (models) {
+    serverOptions.models = models.split(',').map(id => id.trim()).filter(id => id.length > 0);
+  }
+  const script = stringFlag(flags, 'script');
+  if (script) {
+    const data = JSON.parse(await fs.readFile(script, 'utf8'));
+    if (!Array.isArray(data)) {
+      throw new UsageError(`${script} must contain a JSON array of replies`);
+    }
+    serverOptions.script = data;
+  }
+
+  const server = new MockServer(serverOptions);
+  const url = await server.listen();
+  io.stdout.write(`Mock HelpingAI API listening on ${url}\n`);
+
+  await waitForStop(io.signal);
+  await server.close();
+  return EXIT_OK;
+}
+
+/**
+ * Run the command line and resolve to its exit code.
+ */
+export async function main(argv: string[] = process.argv.slice(2), options: CLIOptions = {}): Promise<number> {
+  const io: IO = {
+    stdin: options.stdin || process.stdin,
+    stdout: options.stdout || process.stdout,
+    stderr: options.stderr || process.stderr,
+    env: options.env || process.env,
+    signal: options.signal
+  };
+  const args = parseArgs(argv, BOOLEAN_FLAGS, FLAG_ALIASES);
+  const command = args.positional.shift();
+
+  if (command === 'help' || args.flags.help) {
+    io.stdout.write(USAGE);
+    return EXIT_OK;
+  }
+  if (!command) {
+    io.stderr.write(USAGE);
+    return EXIT_USAGE;
+  }
+
+  try {
+    switch (command) {
+      case 'chat':
+        return await chat(args, io);
+      case 'models':
+        return await models(args, io);
+      case 'serve-mock':
+        return await serveMock(args, io);
+      default:
+        throw new UsageError(`Unknown command: ${command}`);
+    }
+  } catch (error: any) {
+    if (error instanceof UsageError) {
+      io.stderr.write(`helpingai: ${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    io.stderr.write(`helpingai: ${error.message}\n`);
+    return exitCodeFor(error);
+  }
+}
+
+if (require.main === module) {
+  main().then(code => {
+    process.exitCode = code;
+  });
+}
@@ -5,16 +5,6 @@ declare const process: any;
 declare function require(module: string): any;
 declare function setTimeout(callback: () => void, ms: number): any;
 declare function clearTimeout(id: any): void;
-declare class AbortController {
-  signal: AbortSignal;
-  abort(): void;
-}
-declare class AbortSignal {
-  addEventListener(type: string, listener: () => void): void;
-}
-declare class TextDecoder {
-  decode(input?: Uint8Array, options?: { stream?: boolean }): string;
-}
 
 // Import fetch for Node.js environments
 let fetchImpl: any;
@@ -32,35 +22,116 @@ try {
 import {
   HAIError,
   InvalidRequestError,
-  InvalidModelError,
   NoAPIKeyError,
-  InvalidAPIKeyError,
   AuthenticationError,
   APIError,
   RateLimitError,
-  TooManyRequestsError,
-  ServiceUnavailableError,
   TimeoutError,
+  APIUserAbortError,
   APIConnectionError,
-  ServerError,
-  ContentFilterError
+  StructuredOutputError,
+  createErrorFromResponse
 } from './errors';
 import {
   ChatCompletion,
   ChatCompletionChunk,
   ChatCompletionRequest,
+  ChatCompletionRequestNonStreaming,
+  ChatCompletionRequestStreaming,
+  ChatCompletionMessageParam,
+  ChatCompletionRunToolsRequest,
+  ChatCompletionToolRun,
+  ChatCompletionBatch,
+  ChatCompletionBatchOptions,
+  ChatCompletionBatchResult,
+  ChatCompletionParseRequest,
+  ParsedChatCompletion,
+  ParsedChoice,
+  RunnableTool,
   Choice,
   ChoiceDelta,
   ChatCompletionMessage,
   ToolCall,
+  ToolCallDelta,
   ToolFunction,
   FunctionCall,
   CompletionUsage,
   HAIClientOptions,
-  StreamingState,
+  RetryOptions,
+  RequestOptions,
+  MiddlewareNext,
+  RateLimitInfo,
   ErrorResponse
 } from './types';
 import { Models } from './models';
+import { Conversations } from './conversations';
+import { iterSSEMessages } from './sse';
+import { ChatCompletionStream } from './stream';
+import { getToolName, toToolDefinitions, executeToolCall } from './tools';
+import { parseStructuredContent } from './structured';
+import { TagProcessor } from './tags';
+import { resolveRetryOptions, isRetryableError, getRetryDelay, sleep } from './retry';
+import { composeMiddleware, serializeBody } from './middleware';
+import { APIPromise, getRequestId } from './api-promise';
+import { RateLimiter, parseRateLimitHeaders, estimateRequestTokens } from './ratelimit';
+import { Tokens, assertWithinContextWindow, getContextWindow } from './tokens';
+import { UsageTracker } from './usage';
+
+const reasoningTags = TagProcessor.extractReasoning();
+// Leaves whitespace alone, so JSON string values keep their runs of spaces
+const structuredTags = new TagProcessor({ tags: { think: 'drop', ser: 'drop' }, normalizeWhitespace: false });
+
+type ClientRequestOptions = RequestOptions & {
+  stream?: boolean;
+  authRequired?: boolean;
+};
+
+/**
+ * Abort `controller` when `signal` aborts. Returns a function that removes the
+ * listener again, so long-lived signals don't collect one per request.
+ */
+function linkAbortSignal(signal: AbortSignal | undefined, controller: AbortController): () => void {
+  if (!signal) {
+    return () => undefined;
+  }
+  if (signal.aborted) {
+    controller.abort();
+    return () => undefined;
+  }
+  const onAbort = () => controller.abort();
+  signal.addEventListener('abort', onAbort);
+  return () => signal.removeEventListener('abort', onAbort);
+}
+
+/**
+ * Wait for the next stream message. Fails with `TimeoutError` (and aborts the
+ * connection) when none arrives within `timeout` milliseconds, and stops
+ * waiting as soon as the connection is aborted.
+ */
+function nextWithin<T>(
+  iterator: AsyncIterator<T>,
+  timeout: number,
+  connection: AbortController
+): Promise<IteratorResult<T>> {
+  let timeoutId: any;
+  let onAbort: () => void = () => undefined;
+  const interrupted = new Promise<never>((_resolve, reject) => {
+    timeoutId = setTimeout(() => {
+      reject(new TimeoutError(`Stream timed out: no data received for ${timeout}ms`));
+      connection.abort();
+    }, timeout);
+    onAbort = () => reject(new APIUserAbortError('Stream was aborted'));
+    if (connection.signal.aborted) onAbort();
+    connection.signal.addEventListener('abort', onAbort);
+  });
+
+  return Promise.race([iterator.next(), interrupted]).finally(() => {
+    clearTimeout(timeoutId);
+    connection.signal.removeEventListener('abort', onAbort);
+  });
+}
+
+const RETRYABLE_CONNECTION_CODES = ['ECONNREFUSED', 'ENOTFOUND', 'ECONNRESET', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN'];
 
 /**
  * Base client with common functionality for the HelpingAI API.
@@ -71,7 +142,15 @@ export class BaseClient {
   protected organization?: string;
   protected baseURL: string;
   protected timeout: number;
+  protected idleTimeout: number;
+  protected retry?: RetryOptions;
   protected fetchImpl: any;
+  protected rateLimiter?: RateLimiter;
+  protected checkTokenLimit: boolean;
+  /** Token usage and cost, when the `usage` option is set. */
+  public readonly usage?: UsageTracker;
+  private send: MiddlewareNext;
+  private rateLimitInfo?: RateLimitInfo;
 
   constructor(options: HAIClientOptions = {}) {
     this.apiKey = options.apiKey || process.env.HAI_API_KEY || '';
@@ -81,25 +160,120 @@ export class BaseClient {
     this.organization = options.organization;
     this.baseURL = (options.baseURL || 'https://api.helpingai.co/v1').replace(/\/$/, '');
     this.timeout = options.timeout || 60000;
+    this.idleTimeout = options.idleTimeout || this.timeout;
+    this.retry = options.retry;
+    this.rateLimiter = options.rateLimit ? new RateLimiter(options.rateLimit) : undefined;
+    this.checkTokenLimit = options.checkTokenLimit || false;
+    if (options.usage) {
+      this.usage = new UsageTracker(options.usage === true ? {} : options.usage);
+    }
     this.fetchImpl = options.fetch || fetchImpl;
     
     if (!this.fetchImpl) {
       throw new Error('No fetch implementation available. Please install node-fetch or use a modern browser.');
     }
+
+    this.send = composeMiddleware(options.middleware || [], request => this.fetchImpl(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: serializeBody(request.body),
+      signal: request.signal
+    }));
+  }
+
+  /**
+   * The context window used by `checkTokenLimit` for a model.
+   */
+  protected contextWindowOf(model: string): number | undefined {
+    return getContextWindow(model);
   }
 
   /**
-   * Make a request to the HAI API.
+   * The rate limits reported by the most recent response that included
+   * `x-ratelimit-*` headers.
    */
-  async request(
+  get rateLimits(): RateLimitInfo | undefined {
+    return this.rateLimitInfo;
+  }
+
+  /**
+   * Make a request to the HAI API, retrying failed attempts according to the
+   * client's retry policy (or the per-request override). The result resolves
+   * to the parsed JSON body, or to the raw response for streams.
+   */
+  request(
     method: string,
     path: string,
     data?: any,
-    options: {
-      stream?: boolean;
-      authRequired?: boolean;
-      signal?: AbortSignal;
-    } = {}
+    options: ClientRequestOptions = {}
+  ): APIPromise<any> {
+    const estimatedTokens = estimateRequestTokens(data);
+    return new APIPromise(this.requestWithRetries(method, path, data, options, estimatedTokens), async response => {
+      if (options.stream) {
+        return response;
+      }
+      try {
+        const result = await response.json();
+        if (this.rateLimiter && result && result.usage) {
+          this.rateLimiter.settle(estimatedTokens, result.usage.total_tokens || 0);
+        }
+        return result;
+      } catch (error: any) {
+        throw new APIError(
+          `Error communicating with HAI API: ${error.message}`,
+          undefined,
+          undefined,
+          response.status,
+          this.extractHeaders(response)
+        );
+      }
+    });
+  }
+
+  private async requestWithRetries(
+    method: string,
+    path: string,
+    data: any,
+    options: ClientRequestOptions,
+    estimatedTokens: number
+  ): Promise<any> {
+    const retry = resolveRetryOptions(this.retry, options.retry);
+    if (this.checkTokenLimit) {
+      assertWithinContextWindow(data, model => this.contextWindowOf(model));
+    }
+
+    for (let attempt = 1; ; attempt++) {
+      if (this.rateLimiter) {
+        await this.rateLimiter.acquire(estimatedTokens, options.signal);
+      }
+      try {
+        return await this.makeRequest(method, path, data, options);
+      } catch (error) {
+        const aborted = options.signal ? options.signal.aborted : false;
+        const delay = aborted || attempt > retry.maxRetries || !isRetryableError(error, retry)
+          ? undefined
+          : getRetryDelay(attempt, error, retry);
+        if (delay === undefined) {
+          if (error instanceof HAIError) {
+            error.attempts = attempt;
+          }
+          throw error;
+        }
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Perform a single HTTP attempt against the HAI API and resolve to the
+   * successful response. The request passes through the client's middleware
+   * before reaching fetch.
+   */
+  private async makeRequest(
+    method: string,
+    path: string,
+    data: any,
+    options: ClientRequestOptions
   ): Promise<any> {
     const { stream = false, authRequired = true, signal } = options;
 
@@ -115,105 +289,130 @@ export class BaseClient {
       headers['HAI-Organization'] = this.organization;
     }
 
-    const url = `${this.baseURL}${path}`;
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
+    Object.assign(headers, options.headers);
+
+    const url = this.buildURL(path, options.query);
 
-      if (signal) {
-        signal.addEventListener('abort', () => controller.abort());
+    const controller = new AbortController();
+    const unlink = linkAbortSignal(signal, controller);
+    // Stream bodies are read after this returns, so their signal stays linked
+    let keepLinked = false;
+
+    try {
+      if (controller.signal.aborted) {
+        throw new APIUserAbortError();
       }
 
-      const response = await this.fetchImpl(url, {
-        method,
-        headers,
-        body: data ? JSON.stringify(data) : undefined,
-        signal: controller.signal
-      });
+      const timeoutId = setTimeout(() => controller.abort(), options.timeout || this.timeout);
+
+      let response: any;
+      try {
+        response = await this.send({
+          method,
+          url,
+          headers,
+          body: data,
+          signal: controller.signal
+        });
+      } finally {
+        clearTimeout(timeoutId);
+      }
 
-      clearTimeout(timeoutId);
+      this.updateRateLimits(response);
 
       if (!response.ok) {
         await this.handleErrorResponse(response);
       }
 
-      if (stream) {
-        return response;
-      }
-
-      const result = await response.json();
-      return result;
+      keepLinked = stream;
+      return response;
     } catch (error: any) {
       if (error.name === 'AbortError') {
+        if (signal && signal.aborted) {
+          throw new APIUserAbortError();
+        }
         throw new TimeoutError('Request timed out');
       }
-      if (error.code === 'ECONNREFUSED' || error.code === 'ENOTFOUND') {
+      const code = error.code || (error.cause && error.cause.code);
+      if (RETRYABLE_CONNECTION_CODES.includes(code)) {
         throw new APIConnectionError(`Error connecting to HAI API: ${error.message}`, true);
       }
       if (error instanceof HAIError) {
         throw error;
       }
       throw new APIError(`Error communicating with HAI API: ${error.message}`);
+    } finally {
+      if (!keepLinked) {
+        unlink();
+      }
+    }
+  }
+
+  private buildURL(path: string, query?: RequestOptions['query']): string {
+    const url = `${this.baseURL}${path}`;
+    if (!query) {
+      return url;
+    }
+
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    }
+    const search = params.toString();
+    return search ? `${url}${url.includes('?') ? '&' : '?'}${search}` : url;
+  }
+
+  private updateRateLimits(response: any): void {
+    const info = parseRateLimitHeaders(this.extractHeaders(response));
+    if (!info) {
+      return;
+    }
+    this.rateLimitInfo = info;
+    if (this.rateLimiter) {
+      this.rateLimiter.update(info);
     }
   }
 
   private async handleErrorResponse(response: any): Promise<never> {
-    let errorData: ErrorResponse;
+    let errorData: ErrorResponse | null;
     try {
       errorData = await response.json();
     } catch {
       errorData = { error: { message: 'Unknown error occurred' } };
     }
 
-    let errorMessage: string;
-    let errorType: string | undefined;
-    let errorCode: string | undefined;
-
-    if (typeof errorData.error === 'object' && errorData.error !== null) {
-      // Nested format: {"error": {"message": "...", "type": "...", "code": "..."}}
-      errorMessage = errorData.error.message || 'Unknown error';
-      errorType = errorData.error.type;
-      errorCode = errorData.error.code;
-    } else if (typeof errorData.error === 'string') {
-      // Flat format: {"error": "Request failed with status code 400"}
-      errorMessage = errorData.error;
-      errorType = undefined;
-      errorCode = undefined;
-    } else {
-      // Fallback for other formats
-      errorMessage = errorData.message || 'Unknown error';
-      errorType = errorData.type;
-      errorCode = errorData.code;
-    }
+    throw this.createAPIError(response.status, errorData, this.extractHeaders(response));
+  }
 
-    const status = response.status;
-    const headers = this.extractHeaders(response);
-
-    if (status === 401) {
-      throw new InvalidAPIKeyError(status, headers);
-    } else if (status === 400) {
-      // Handle model errors
-      if (errorMessage.toLowerCase().includes('model')) {
-        const match = errorMessage.match(/'([^']*)'/);
-        const modelName = match ? match[1] : 'Unknown model';
-        throw new InvalidModelError(modelName, status, headers);
-      }
-      throw new InvalidRequestError(errorMessage, { statusCode: status, headers });
-    } else if (status === 429) {
-      throw new TooManyRequestsError(status, headers);
-    } else if (status === 503) {
-      throw new ServiceUnavailableError(status, headers);
-    } else if (status >= 500) {
-      throw new ServerError(errorMessage, status, headers);
-    } else if (errorType && errorType.toLowerCase().includes('content_filter')) {
-      throw new ContentFilterError(errorMessage, status, headers);
-    } else {
-      throw new APIError(errorMessage, errorCode, errorType, status, headers);
-    }
+  /**
+   * Map an error payload to the matching error class. Used for HTTP error
+   * responses and for `error` payloads sent mid-stream, which have no status.
+   * @internal
+   */
+  createAPIError(
+    status: number | undefined,
+    errorData: ErrorResponse | null | undefined,
+    headers: Record<string, string> = {}
+  ): HAIError {
+    return createErrorFromResponse(status, errorData, headers);
   }
 
-  private extractHeaders(response: any): Record<string, string> {
+  /**
+   * The idle timeout for a stream: the request override or the client default.
+   * @internal
+   */
+  resolveIdleTimeout(override?: number): number {
+    return override || this.idleTimeout;
+  }
+
+  /** @internal */
+  extractHeaders(response: any): Record<string, string> {
     const headers: Record<string, string> = {};
     if (response.headers) {
       response.headers.forEach((value: string, key: string) => {
@@ -236,8 +435,13 @@ export class ChatCompletions {
 
   /**
    * Create a chat completion.
+   * Resolves to a `ChatCompletion`, or to a `ChatCompletionStream` when `stream: true`.
+   * Call `.withResponse()` on the result to also get the raw response.
    */
-  async create(request: ChatCompletionRequest & { hideThink?: boolean }): Promise<ChatCompletion | AsyncIterable<ChatCompletionChunk>> {
+  create(request: ChatCompletionRequestNonStreaming, options?: RequestOptions): APIPromise<ChatCompletion>;
+  create(request: ChatCompletionRequestStreaming, options?: RequestOptions): APIPromise<ChatCompletionStream>;
+  create(request: ChatCompletionRequest, options?: RequestOptions): APIPromise<ChatCompletion | ChatCompletionStream>;
+  create(request: ChatCompletionRequest, options: RequestOptions = {}): APIPromise<ChatCompletion | ChatCompletionStream> {
     const {
       model,
       messages,
@@ -256,7 +460,10 @@ export class ChatCompletions {
       seed,
       tools,
       tool_choice = 'auto',
-      hideThink = false
+      stream_options,
+      hideThink = false,
+      extractReasoning = false,
+      tagProcessor
     } = request;
 
     const requestData: any = {
@@ -280,27 +487,252 @@ export class ChatCompletions {
     if (seed !== undefined) requestData.seed = seed;
     if (tools !== undefined) requestData.tools = tools;
     if (tools && tool_choice !== undefined) requestData.tool_choice = tool_choice;
+    if (stream_options !== undefined) {
+      requestData.stream_options = stream_options;
+    } else if (stream && this.client.usage) {
+      // The usage tracker needs the final usage chunk
+      requestData.stream_options = { include_usage: true };
+    }
 
-    const response = await this.client.request(
+    let processor = tagProcessor;
+    if (!processor && extractReasoning) {
+      processor = TagProcessor.extractReasoning();
+    } else if (!processor && hideThink) {
+      processor = TagProcessor.hideThink();
+    }
+
+    if (stream) {
+      return this.createStream(requestData, options, processor);
+    }
+
+    return this.client.request('POST', '/chat/completions', requestData, options)._thenUnwrap((data, response) => {
+      let completion = this.handleResponse(data);
+      if (processor) {
+        completion = processor.processCompletion(completion);
+      }
+      const requestId = getRequestId(response);
+      if (requestId) {
+        completion._requestId = requestId;
+      }
+      this.recordUsage(requestData, completion, requestId);
+      return completion;
+    });
+  }
+
+  /**
+   * Start a streamed completion. The stream's controller backs `stream.abort()`
+   * and follows the caller's signal; a separate connection controller cancels
+   * the HTTP request when the stream is aborted or goes idle.
+   */
+  private createStream(
+    requestData: any,
+    options: RequestOptions,
+    processor?: TagProcessor
+  ): APIPromise<ChatCompletionStream> {
+    const controller = new AbortController();
+    const connection = new AbortController();
+    controller.signal.addEventListener('abort', () => connection.abort());
+    const unlink = linkAbortSignal(options.signal, controller);
+    const idleTimeout = this.client.resolveIdleTimeout(options.idleTimeout);
+
+    const promise = this.client.request(
       'POST',
       '/chat/completions',
       requestData,
-      { stream }
+      { ...options, stream: true, signal: connection.signal }
     );
+    promise.asResponse().catch(unlink);
+
+    return promise._thenUnwrap(response => {
+      const streamIterable = this.handleStreamResponse(response, connection, idleTimeout, unlink);
+      const stream = new ChatCompletionStream(
+        processor ? processor.processStream(streamIterable) : streamIterable,
+        controller
+      );
+      stream.on('end', completion => this.recordUsage(requestData, completion, getRequestId(response)));
+      return stream;
+    });
+  }
 
-    if (stream) {
-      const streamIterable = this.handleStreamResponse(response);
-      if (hideThink) {
-        return this.createFilteredStreamGenerator(streamIterable);
+  /**
+   * Add a completion's usage to the client's usage tracker, if enabled.
+   * Usage is attributed to the requested model so it matches the price table.
+   */
+  private recordUsage(requestData: any, completion: ChatCompletion, requestId?: string): void {
+    if (this.client.usage && completion.usage) {
+      this.client.usage.record(requestData.model, completion.usage, { user: requestData.user, requestId });
+    }
+  }
+
+  /**
+   * Create a chat completion with a `json_schema` response format and parse
+   * each choice's content into `message.parsed`.
+   * @throws {StructuredOutputError} If the output is not valid JSON or does not match the schema.
+   */
+  async parse<T = unknown>(
+    request: ChatCompletionParseRequest<T>,
+    options?: RequestOptions
+  ): Promise<ParsedChatCompletion<T>> {
+    const format = request.response_format;
+    const parseContent = (content: string): T => {
+      if ('$parse' in format && typeof format.$parse === 'function') {
+        return format.$parse(content);
       }
-      return streamIterable;
+      return parseStructuredContent<T>(content, format.json_schema.schema);
+    };
+
+    const completion = await this.create({ ...request, stream: false }, options);
+
+    const choices = completion.choices.map((choice): ParsedChoice<T> => {
+      const message = choice.message || { role: 'assistant' };
+      if (!message.content || message.tool_calls) {
+        return { ...choice, message: { ...message, parsed: null } };
+      }
+      if (choice.finish_reason === 'length') {
+        throw new StructuredOutputError('Model output was truncated before the JSON was complete', message.content);
+      }
+      const content = structuredTags.process(message.content).content;
+      return { ...choice, message: { ...message, parsed: parseContent(content) } };
+    });
+
+    return { ...completion, choices };
+  }
+
+  /**
+   * Call the model with runnable tools, execute the tool calls it makes and
+   * feed the results back until it answers without calling a tool.
+   */
+  async runTools(request: ChatCompletionRunToolsRequest, options?: RequestOptions): Promise<ChatCompletionToolRun> {
+    const {
+      tools,
+      messages,
+      maxIterations = 10,
+      parallelToolCalls = true,
+      ...params
+    } = request;
+
+    const registry = new Map<string, RunnableTool>();
+    for (const tool of tools) {
+      registry.set(getToolName(tool), tool);
     }
+    const definitions = toToolDefinitions(tools);
+    const history: ChatCompletionMessageParam[] = [...messages];
+
+    for (let iteration = 1; iteration <= maxIterations; iteration++) {
+      const completion = await this.create({
+        ...params,
+        messages: history,
+        tools: definitions,
+        stream: false
+      }, options);
+
+      const message = completion.choices[0] && completion.choices[0].message;
+      if (!message) {
+        throw new HAIError('The model returned no message while running tools');
+      }
+
+      const content = message.content !== undefined ? message.content : null;
+      const toolCalls = message.tool_calls || [];
+      history.push({
+        role: 'assistant',
+        content,
+        tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+      });
 
-    const completion = this.handleResponse(response);
-    if (hideThink) {
-      return this.filterCompletion(completion);
+      if (toolCalls.length === 0) {
+        return { completion, messages: history, content, iterations: iteration };
+      }
+
+      let results: string[];
+      if (parallelToolCalls) {
+        results = await Promise.all(toolCalls.map(toolCall => executeToolCall(registry, toolCall)));
+      } else {
+        results = [];
+        for (const toolCall of toolCalls) {
+          results.push(await executeToolCall(registry, toolCall));
+        }
+      }
+
+      toolCalls.forEach((toolCall, i) => {
+        history.push({ role: 'tool', tool_call_id: toolCall.id, content: results[i] });
+      });
     }
-    return completion;
+
+    throw new HAIError(`The model was still calling tools after ${maxIterations} iterations`);
+  }
+
+  /**
+   * Run many non-streaming completions through a bounded pool of workers.
+   * Failures do not reject the batch; each request gets a result in input
+   * order. Aborting `signal` (or a failure with `stopOnError`) cancels the
+   * requests that have not finished and resolves with the results so far.
+   */
+  async batch(
+    requests: ChatCompletionRequestNonStreaming[],
+    options: ChatCompletionBatchOptions = {}
+  ): Promise<ChatCompletionBatch> {
+    const { concurrency = 5, onProgress, stopOnError = false, signal } = options;
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new InvalidRequestError('concurrency must be a positive integer', { param: 'concurrency' });
+    }
+
+    const controller = new AbortController();
+    const cancel = () => controller.abort();
+    const unlink = linkAbortSignal(signal, controller);
+
+    const results: ChatCompletionBatchResult[] = new Array(requests.length);
+    const usage: CompletionUsage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+    let nextIndex = 0;
+    let succeeded = 0;
+    let failed = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextIndex < requests.length && !controller.signal.aborted) {
+        const index = nextIndex++;
+        let result: ChatCompletionBatchResult;
+        try {
+          const completion = await this.create({ ...requests[index], stream: false }, { signal: controller.signal });
+          result = { status: 'success', index, completion };
+          succeeded++;
+          if (completion.usage) {
+            usage.prompt_tokens += completion.usage.prompt_tokens;
+            usage.completion_tokens += completion.usage.completion_tokens;
+            usage.total_tokens += completion.usage.total_tokens;
+          }
+        } catch (error: any) {
+          if (controller.signal.aborted) {
+            result = { status: 'cancelled', index };
+          } else {
+            result = {
+              status: 'error',
+              index,
+              error: error instanceof HAIError ? error : new HAIError(error && error.message ? error.message : String(error))
+            };
+            failed++;
+            if (stopOnError) cancel();
+          }
+        }
+
+        results[index] = result;
+        if (onProgress && result.status !== 'cancelled') {
+          onProgress({ total: requests.length, completed: succeeded + failed, succeeded, failed, result });
+        }
+      }
+    };
+
+    try {
+      await Promise.all(Array.from({ length: Math.min(concurrency, requests.length) }, worker));
+    } finally {
+      unlink();
+    }
+
+    for (let index = 0; index < results.length; index++) {
+      if (!results[index]) {
+        results[index] = { status: 'cancelled', index };
+      }
+    }
+
+    return { results, usage, succeeded, failed, cancelled: requests.length - succeeded - failed };
   }
 
   private handleResponse(data: any): ChatCompletion {
@@ -330,12 +762,18 @@ export class ChatCompletions {
       }
 
       const message: ChatCompletionMessage = {
-        role: messageData.role || '',
+        role: 'assistant',
         content: messageData.content,
         function_call: functionCall,
         tool_calls: toolCalls
       };
 
+      if (messageData.content) {
+        const { extracted } = reasoningTags.process(messageData.content);
+        if (extracted.think) message.reasoning = extracted.think;
+        if (extracted.ser) message.ser = extracted.ser;
+      }
+
       const choice: Choice = {
         index: choiceData.index || 0,
         message,
@@ -366,266 +804,103 @@ export class ChatCompletions {
     };
   }
 
-  private async* handleStreamResponse(response: any): AsyncIterable<ChatCompletionChunk> {
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-
+  private async* handleStreamResponse(
+    response: any,
+    connection: AbortController,
+    idleTimeout: number,
+    onEnd: () => void
+  ): AsyncIterable<ChatCompletionChunk> {
+    const messages = iterSSEMessages(response.body)[Symbol.asyncIterator]();
     try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value, { stream: true });
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.trim() === '') continue;
-          if (line.trim() === 'data: [DONE]') return;
-
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              const choices: Choice[] = [];
-
-              for (const choiceData of data.choices || []) {
-                const deltaData = choiceData.delta || {};
-
-                let toolCalls: ToolCall[] | undefined;
-                if (deltaData.tool_calls) {
-                  toolCalls = deltaData.tool_calls.map((tc: any) => ({
-                    id: tc.id || '',
-                    type: tc.type || 'function',
-                    function: {
-                      name: tc.function.name,
-                      arguments: tc.function.arguments
-                    }
-                  }));
-                }
-
-                let functionCall: FunctionCall | undefined;
-                if (deltaData.function_call) {
-                  functionCall = {
-                    name: deltaData.function_call.name,
-                    arguments: deltaData.function_call.arguments
-                  };
-                }
-
-                const delta: ChoiceDelta = {
-                  content: deltaData.content,
-                  function_call: functionCall,
-                  role: deltaData.role,
-                  tool_calls: toolCalls
-                };
-
-                const choice: Choice = {
-                  index: choiceData.index || 0,
-                  delta,
-                  finish_reason: choiceData.finish_reason,
-                  logprobs: choiceData.logprobs
-                };
-
-                choices.push(choice);
-              }
-
-              yield {
-                id: data.id || '',
-                created: data.created || 0,
-                model: data.model || '',
-                choices,
-                object: 'chat.completion.chunk',
-                system_fingerprint: data.system_fingerprint
-              };
-            } catch (error) {
-              throw new HAIError(`Error parsing stream: ${error}`);
-            }
+      for (;;) {
+        const { value: sse, done } = await nextWithin(messages, idleTimeout, connection);
+        if (done || sse.data === '[DONE]') return;
+
+        let data: any;
+        try {
+          data = JSON.parse(sse.data);
+        } catch (error) {
+          if (sse.event === 'error') {
+            throw new APIError(sse.data);
           }
+          throw new HAIError(`Error parsing stream: ${error}`, { body: sse.data });
         }
+
+        if (sse.event === 'error' || (data && data.error)) {
+          const status = Number(data.status || (data.error && data.error.status)) || undefined;
+          throw this.client.createAPIError(status, data, this.client.extractHeaders(response));
+        }
+
+        yield this.handleChunk(data);
       }
     } finally {
-      reader.releaseLock();
-    }
-  }
-
-  private filterCompletion(completion: ChatCompletion): ChatCompletion {
-    const filteredChoices = completion.choices.map(choice => {
-      if (choice.message && choice.message.content) {
-        const filteredContent = this.filterThinkSerBlocks(choice.message.content);
-        return {
-          ...choice,
-          message: {
-            ...choice.message,
-            content: filteredContent
-          }
-        };
+      onEnd();
+      // Release the body when the stream ends early; not awaited because a
+      // stalled read would never let it settle
+      if (messages.return) {
+        messages.return().catch(() => undefined);
       }
-      return choice;
-    });
-
-    return {
-      ...completion,
-      choices: filteredChoices
-    };
+    }
   }
 
-  private async* createFilteredStreamGenerator(
-    streamIterable: AsyncIterable<ChatCompletionChunk>
-  ): AsyncIterable<ChatCompletionChunk> {
-    const state: StreamingState = {
-      isReasoning: false,
-      isSer: false
-    };
-    let buffer = '';
-    let consecutiveNewlines = 0;
-    let lastCharWasSpace = false;
-    let streamStarted = false;
-
-    for await (const chunk of streamIterable) {
-      const newChoices: Choice[] = [];
-      let shouldYieldChunk = false;
-
-      for (const choice of chunk.choices) {
-        if (choice.delta && choice.delta.content) {
-          buffer += choice.delta.content;
-          let outputContent = '';
-          let processedLen = 0;
-
-          while (processedLen < buffer.length) {
-            const remaining = buffer.slice(processedLen);
-
-            if (state.isReasoning) {
-              if (remaining.startsWith('</think>')) {
-                state.isReasoning = false;
-                processedLen += 8;
-                lastCharWasSpace = true;
-                continue;
-              }
-              if ('</think>'.startsWith(remaining)) {
-                break;
-              }
-              processedLen += 1;
-              continue;
-            }
-
-            if (state.isSer) {
-              if (remaining.startsWith('</ser>')) {
-                state.isSer = false;
-                processedLen += 6;
-                lastCharWasSpace = true;
-                continue;
-              }
-              if ('</ser>'.startsWith(remaining)) {
-                break;
-              }
-              processedLen += 1;
-              continue;
-            }
-
-            if (remaining.startsWith('<think>')) {
-              state.isReasoning = true;
-              processedLen += 7;
-              continue;
-            }
-
-            if (remaining.startsWith('<ser>')) {
-              state.isSer = true;
-              processedLen += 5;
-              continue;
-            }
-
-            if ('<think>'.startsWith(remaining) || '<ser>'.startsWith(remaining)) {
-              break;
-            }
-
-            const char = buffer[processedLen];
-
-            if (!streamStarted && /\s/.test(char)) {
-              processedLen += 1;
-              continue;
-            }
-            streamStarted = true;
-
-            if (char === '\n') {
-              consecutiveNewlines += 1;
-              if (consecutiveNewlines <= 2) {
-                outputContent += char;
-              }
-              lastCharWasSpace = false;
-            } else if (/\s/.test(char)) {
-              if (!lastCharWasSpace) {
-                outputContent += ' ';
-              }
-              lastCharWasSpace = true;
-            } else {
-              consecutiveNewlines = 0;
-              lastCharWasSpace = false;
-              outputContent += char;
-            }
-
-            processedLen += 1;
-          }
+  private handleChunk(data: any): ChatCompletionChunk {
+    const choices: Choice[] = [];
 
-          buffer = buffer.slice(processedLen);
-
-          if (outputContent) {
-            shouldYieldChunk = true;
-            newChoices.push({
-              index: choice.index,
-              delta: {
-                content: outputContent,
-                role: choice.delta.role,
-                function_call: choice.delta.function_call,
-                tool_calls: choice.delta.tool_calls
-              },
-              finish_reason: choice.finish_reason,
-              logprobs: choice.logprobs
-            });
-          } else if (choice.finish_reason) {
-            shouldYieldChunk = true;
-            newChoices.push({
-              index: choice.index,
-              delta: {
-                content: undefined,
-                role: choice.delta.role,
-                function_call: choice.delta.function_call,
-                tool_calls: choice.delta.tool_calls
-              },
-              finish_reason: choice.finish_reason,
-              logprobs: choice.logprobs
-            });
+    for (const choiceData of data.choices || []) {
+      const deltaData = choiceData.delta || {};
+
+      let toolCalls: ToolCallDelta[] | undefined;
+      if (deltaData.tool_calls) {
+        toolCalls = deltaData.tool_calls.map((tc: any, position: number) => {
+          const toolCall: ToolCallDelta = {
+            index: typeof tc.index === 'number' ? tc.index : position
+          };
+          if (tc.id) toolCall.id = tc.id;
+          if (tc.type) toolCall.type = tc.type;
+          if (tc.function) {
+            toolCall.function = {
+              name: tc.function.name,
+              arguments: tc.function.arguments
+            };
           }
-        } else {
-          shouldYieldChunk = true;
-          newChoices.push(choice);
-        }
+          return toolCall;
+        });
       }
 
-      if (shouldYieldChunk) {
-        yield {
-          ...chunk,
-          choices: newChoices
+      let functionCall: FunctionCall | undefined;
+      if (deltaData.function_call) {
+        functionCall = {
+          name: deltaData.function_call.name,
+          arguments: deltaData.function_call.arguments
         };
       }
-    }
-  }
-
-  private filterThinkSerBlocks(text?: string): string | undefined {
-    if (!text) return text;
-
-    // Remove think and ser blocks
-    let result = text.replace(/<think>[\s\S]*?<\/think>/g, '');
-    result = result.replace(/<ser>[\s\S]*?<\/ser>/g, '');
 
-    // Fix broken words that may have been split across lines
-    result = result.replace(/(\w)-\s*\n\s*(\w)/g, '$1$2');
+      const delta: ChoiceDelta = {
+        content: deltaData.content,
+        function_call: functionCall,
+        role: deltaData.role,
+        tool_calls: toolCalls
+      };
 
-    // Remove excessive empty lines (more than 2 consecutive newlines become 2)
-    result = result.replace(/\n{3,}/g, '\n\n');
+      const choice: Choice = {
+        index: choiceData.index || 0,
+        delta,
+        finish_reason: choiceData.finish_reason,
+        logprobs: choiceData.logprobs
+      };
 
-    // Remove extra spaces that might be left behind
-    result = result.replace(/ {2,}/g, ' ');
-    result = result.trim();
+      choices.push(choice);
+    }
 
-    return result;
+    return {
+      id: data.id || '',
+      created: data.created || 0,
+      model: data.model || '',
+      choices,
+      object: 'chat.completion.chunk',
+      system_fingerprint: data.system_fingerprint,
+      usage: data.usage
+    };
   }
 }
 
@@ -647,10 +922,21 @@ export class Chat {
 export class HAI extends BaseClient {
   public chat: Chat;
   public models: Models;
+  public conversations: Conversations;
+  public tokens: Tokens;
 
   constructor(options: HAIClientOptions = {}) {
     super(options);
     this.chat = new Chat(this);
-    this.models = new Models(this);
+    this.models = new Models(this, options.models);
+    this.conversations = new Conversations(this.chat.completions);
+    this.tokens = new Tokens();
+  }
+
+  /**
+   * Prefer the window reported by a cached `/models` list over the built-in one.
+   */
+  protected contextWindowOf(model: string): number | undefined {
+    return this.models.cachedContextWindow(model) || super.contextWindowOf(model);
   }
 }
@@ -0,0 +1,325 @@
+import type { ChatCompletions } from './client';
+import { ChatCompletionStream } from './stream';
+import { countMessageTokens, getContextWindow } from './tokens';
+import {
+  ChatCompletion,
+  ChatCompletionMessageParam,
+  ContentPart,
+  ConversationData,
+  ConversationOptions,
+  ConversationParams,
+  RequestOptions
+} from './types';
+
+/**
+ * The history to send after trimming, kept apart from the conversation until
+ * the reply arrives so a failed request leaves the conversation unchanged.
+ */
+interface TrimmedHistory {
+  messages: ChatCompletionMessageParam[];
+  dropped: number; // Messages removed from the start of the stored history
+  summary?: string;
+}
+
+const SUMMARY_PROMPT =
+  'Summarise the conversation below in a few sentences. Keep the facts, names, ' +
+  'preferences and decisions the assistant will need to continue it.';
+
+/**
+ * A chat that keeps its own message history. Each `send` or `stream` adds the
+ * user message and the assistant reply once the reply is complete; when the
+ * history no longer fits `maxContextTokens`, the oldest turns are dropped or
+ * summarised. A turn starts with a user message and includes the replies and
+ * tool results that follow it.
+ */
+export class Conversation {
+  public readonly model: string;
+  public readonly system?: string;
+  public readonly maxContextTokens?: number;
+  public readonly trimStrategy: 'drop' | 'summarize';
+  public params: ConversationParams;
+
+  private completions: ChatCompletions;
+  private history: ChatCompletionMessageParam[];
+  private summaryText?: string;
+  private summarizer?: ConversationOptions['summarize'];
+  private tokenCounter: (messages: ChatCompletionMessageParam[]) => number;
+
+  constructor(completions: ChatCompletions, options: ConversationOptions) {
+    this.completions = completions;
+    this.model = options.model;
+    this.system = options.system;
+    this.maxContextTokens = options.maxContextTokens;
+    this.trimStrategy = options.trimStrategy || 'drop';
+    this.params = { ...options.params };
+    this.history = [...(options.messages || [])];
+    this.summarizer = options.summarize;
+    this.tokenCounter = options.countTokens || (messages => countMessageTokens(messages, { model: this.model }));
+  }
+
+  /**
+   * The stored history, without the system prompt and summary.
+   */
+  get messages(): ChatCompletionMessageParam[] {
+    return [...this.history];
+  }
+
+  /**
+   * Summary of the turns trimmed so far with the `summarize` strategy.
+   */
+  get summary(): string | undefined {
+    return this.summaryText;
+  }
+
+  /**
+   * Number of turns in the history.
+   */
+  get turnCount(): number {
+    return splitTurns(this.history).length;
+  }
+
+  /**
+   * Send a user message and wait for the reply. Call without content to
+   * continue after adding tool results.
+   */
+  async send(content?: string | ContentPart[], options?: RequestOptions): Promise<ChatCompletion> {
+    const pending = this.pendingMessages(content);
+    const trimmed = await this.fitToBudget(pending);
+
+    const completion = await this.completions.create({
+      ...this.params,
+      model: this.model,
+      messages: this.requestMessages(trimmed, pending),
+      stream: false
+    }, options);
+
+    this.commit(trimmed, pending, completion);
+    return completion;
+  }
+
+  /**
+   * Send a user message and stream the reply. The reply is added to the
+   * history when the stream ends; an aborted or failed stream leaves the
+   * history unchanged.
+   */
+  async stream(content?: string | ContentPart[], options?: RequestOptions): Promise<ChatCompletionStream> {
+    const pending = this.pendingMessages(content);
+    const trimmed = await this.fitToBudget(pending);
+
+    const stream = await this.completions.create({
+      ...this.params,
+      model: this.model,
+      messages: this.requestMessages(trimmed, pending),
+      stream: true
+    }, options);
+
+    stream.on('end', completion => {
+      this.commit(trimmed, pending, completion);
+    });
+    return stream;
+  }
+
+  /**
+   * Add the result of a tool call made in the last reply.
+   */
+  addToolResult(toolCallId: string, content: string): this {
+    this.history.push({ role: 'tool', tool_call_id: toolCallId, content });
+    return this;
+  }
+
+  /**
+   * Start a separate conversation from the first `turns` turns of this one
+   * (all of them by default). Later messages in either do not affect the other.
+   */
+  fork(turns: number = this.turnCount): Conversation {
+    const kept = splitTurns(this.history).slice(0, Math.max(0, turns));
+    const conversation = new Conversation(this.completions, {
+      model: this.model,
+      system: this.system,
+      maxContextTokens: this.maxContextTokens,
+      trimStrategy: this.trimStrategy,
+      summarize: this.summarizer,
+      countTokens: this.tokenCounter,
+      params: this.params,
+      messages: ([] as ChatCompletionMessageParam[]).concat(...kept)
+    });
+    conversation.summaryText = this.summaryText;
+    return conversation;
+  }
+
+  /**
+   * Serialisable state for `hai.conversations.fromJSON`. Functions such as a
+   * custom summariser and the `tagProcessor` param are not included.
+   */
+  toJSON(): ConversationData {
+    const params = { ...this.params };
+    delete params.tagProcessor;
+    return {
+      model: this.model,
+      system: this.system,
+      maxContextTokens: this.maxContextTokens,
+      trimStrategy: this.trimStrategy,
+      params,
+      summary: this.summaryText,
+      messages: this.messages
+    };
+  }
+
+  /** @internal */
+  restoreSummary(summary: string | undefined): void {
+    this.summaryText = summary;
+  }
+
+  private pendingMessages(content?: string | ContentPart[]): ChatCompletionMessageParam[] {
+    return content !== undefined ? [{ role: 'user', content }] : [];
+  }
+
+  private requestMessages(trimmed: TrimmedHistory, pending: ChatCompletionMessageParam[]): ChatCompletionMessageParam[] {
+    const messages: ChatCompletionMessageParam[] = [];
+    if (this.system) {
+      messages.push({ role: 'system', content: this.system });
+    }
+    if (trimmed.summary) {
+      messages.push({ role: 'system', content: `Summary of the earlier conversation: ${trimmed.summary}` });
+    }
+    return messages.concat(trimmed.messages, pending);
+  }
+
+  /**
+   * Store the trimmed history and summary together with the reply, once the
+   * request has succeeded.
+   */
+  private commit(trimmed: TrimmedHistory, pending: ChatCompletionMessageParam[], completion: ChatCompletion): void {
+    this.history = this.history.slice(trimmed.dropped).concat(pending, toAssistantMessage(completion));
+    this.summaryText = trimmed.summary;
+  }
+
+  /**
+   * Work out which of the oldest turns to drop so the request fits the budget,
+   * summarising them with the `summarize` strategy. The budget defaults to the
+   * model's context window. The latest messages are always sent, even when
+   * they alone exceed the budget: a new user message, or without one the last
+   * turn, which holds the tool results being continued. The conversation
+   * itself is not changed.
+   */
+  private async fitToBudget(pending: ChatCompletionMessageParam[]): Promise<TrimmedHistory> {
+    const trimmed: TrimmedHistory = { messages: this.history, dropped: 0, summary: this.summaryText };
+    const maxContextTokens = this.maxContextTokens || getContextWindow(this.model);
+    if (!maxContextTokens) {
+      return trimmed;
+    }
+    const budget = maxContextTokens - (this.params.max_tokens || 0);
+
+    const turns = splitTurns(this.history);
+    for (const turn of pending.length > 0 ? turns : turns.slice(0, -1)) {
+      if (this.tokenCounter(this.requestMessages(trimmed, pending)) <= budget) break;
+      trimmed.dropped += turn.length;
+      trimmed.messages = this.history.slice(trimmed.dropped);
+    }
+
+    if (trimmed.dropped > 0 && this.trimStrategy === 'summarize') {
+      trimmed.summary = await this.summarizeTurns(this.history.slice(0, trimmed.dropped));
+    }
+    return trimmed;
+  }
+
+  private async summarizeTurns(messages: ChatCompletionMessageParam[]): Promise<string> {
+    if (this.summarizer) {
+      return this.summarizer(messages, this.summaryText);
+    }
+
+    const transcript = messages.map(message => `${message.role}: ${textOf(message)}`).join('\n');
+    const completion = await this.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: SUMMARY_PROMPT },
+        {
+          role: 'user',
+          content: this.summaryText ? `Earlier summary: ${this.summaryText}\n\n${transcript}` : transcript
+        }
+      ],
+      hideThink: true
+    });
+    const message = completion.choices[0] && completion.choices[0].message;
+    return (message && message.content) || this.summaryText || '';
+  }
+}
+
+/**
+ * Conversations API interface: creates and restores `Conversation`s bound to
+ * the client.
+ */
+export class Conversations {
+  private completions: ChatCompletions;
+
+  constructor(completions: ChatCompletions) {
+    this.completions = completions;
+  }
+
+  /**
+   * Start a conversation.
+   */
+  create(options: ConversationOptions): Conversation {
+    return new Conversation(this.completions, options);
+  }
+
+  /**
+   * Restore a conversation saved with `toJSON()`. Pass the options that are
+   * not serialised, such as `summarize` or `countTokens`, again in `options`.
+   */
+  fromJSON(
+    data: ConversationData | string,
+    options: Partial<ConversationOptions> = {}
+  ): Conversation {
+    const state: ConversationData = typeof data === 'string' ? JSON.parse(data) : data;
+    const conversation = new Conversation(this.completions, {
+      model: state.model,
+      system: state.system,
+      maxContextTokens: state.maxContextTokens,
+      trimStrategy: state.trimStrategy,
+      params: state.params,
+      messages: state.messages,
+      ...options
+    });
+    conversation.restoreSummary(state.summary);
+    return conversation;
+  }
+}
+
+/**
+ * Group messages into turns, each starting at a user message. Messages before
+ * the first user message form a turn of their own.
+ */
+function splitTurns(messages: ChatCompletionMessageParam[]): ChatCompletionMessageParam[][] {
+  const turns: ChatCompletionMessageParam[][] = [];
+  for (const message of messages) {
+    if (turns.length === 0 || message.role === 'user') {
+      turns.push([]);
+    }
+    turns[turns.length - 1].push(message);
+  }
+  return turns;
+}
+
+function toAssistantMessage(completion: ChatCompletion): ChatCompletionMessageParam {
+  const message = completion.choices[0] && completion.choices[0].message;
+  const toolCalls = message && message.tool_calls && message.tool_calls.length > 0 ? message.tool_calls : undefined;
+  return {
+    role: 'assistant',
+    content: message && message.content !== undefined ? message.content : null,
+    ...(toolCalls ? { tool_calls: toolCalls } : {})
+  };
+}
+
+function textOf(message: ChatCompletionMessageParam): string {
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  if (Array.isArray(message.content)) {
+    return message.content.map(part => (part.type === 'text' ? part.text : '[image]')).join(' ');
+  }
+  if ('tool_calls' in message && message.tool_calls) {
+    return message.tool_calls.map(call => `${call.function.name}(${call.function.arguments})`).join(', ');
+  }
+  return '';
+}
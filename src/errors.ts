@@ -1,10 +1,55 @@
+import { ErrorResponse, HAIErrorJSON } from './types';
+
+/**
+ * Stable codes for the SDK's error classes, one per class. Unlike class
+ * names they survive minification, and unlike `instanceof` they work when
+ * several copies of the SDK are bundled.
+ */
+export enum HAIErrorCode {
+  HAIError = 'hai_error',
+  Authentication = 'authentication',
+  NoAPIKey = 'no_api_key',
+  InvalidAPIKey = 'invalid_api_key',
+  PermissionDenied = 'permission_denied',
+  InvalidRequest = 'invalid_request',
+  InvalidModel = 'invalid_model',
+  RateLimit = 'rate_limit',
+  TooManyRequests = 'too_many_requests',
+  ServiceUnavailable = 'service_unavailable',
+  Timeout = 'timeout',
+  UserAbort = 'user_abort',
+  Connection = 'connection',
+  API = 'api',
+  NotFound = 'not_found',
+  Conflict = 'conflict',
+  Server = 'server',
+  ContentFilter = 'content_filter',
+  TokenLimit = 'token_limit',
+  InvalidContent = 'invalid_content',
+  UnprocessableEntity = 'unprocessable_entity',
+  RequestTooLarge = 'request_too_large',
+  StructuredOutput = 'structured_output'
+}
+
+/**
+ * Symbol under which errors expose the codes of their class and its parent
+ * classes. `Symbol.for` makes it the same symbol in every copy of the SDK.
+ */
+const HAI_ERROR_BRAND: unique symbol = Symbol.for('helpingai.error');
+
 /**
  * Base error class for all HelpingAI API errors.
  */
 export class HAIError extends Error {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.HAIError;
+
   public readonly statusCode?: number;
   public readonly headers?: Record<string, string>;
   public readonly body?: any;
+  /** Server request ID from the `x-request-id` header, for support tickets. */
+  public readonly requestId?: string;
+  /** Number of attempts made before this error was thrown, set by the client. */
+  public attempts?: number;
 
   constructor(
     message: string,
@@ -19,6 +64,7 @@ export class HAIError extends Error {
     this.statusCode = options.statusCode;
     this.headers = options.headers;
     this.body = options.body;
+    this.requestId = options.headers ? options.headers['x-request-id'] : undefined;
 
     // Maintains proper stack trace for where our error was thrown (only available on V8)
     if (Error.captureStackTrace) {
@@ -26,17 +72,94 @@ export class HAIError extends Error {
     }
   }
 
+  /**
+   * The code of this error's class.
+   */
+  get errorCode(): HAIErrorCode {
+    return (this.constructor as typeof HAIError).errorCode;
+  }
+
+  /**
+   * The codes of this error's class and all its parent classes, read by the
+   * `is*Error` type guards.
+   */
+  get [HAI_ERROR_BRAND](): HAIErrorCode[] {
+    const codes: HAIErrorCode[] = [];
+    let errorClass: any = this.constructor;
+    while (errorClass && errorClass.errorCode) {
+      if (codes[codes.length - 1] !== errorClass.errorCode) {
+        codes.push(errorClass.errorCode);
+      }
+      errorClass = Object.getPrototypeOf(errorClass);
+    }
+    return codes;
+  }
+
   toString(): string {
     const status = this.statusCode ? ` (HTTP ${this.statusCode})` : '';
     return `${this.message}${status}`;
   }
+
+  /**
+   * A plain object for logs and queues. Restore it with `HAIError.fromJSON`.
+   */
+  toJSON(): HAIErrorJSON {
+    const error = this as HAIError & Partial<Pick<
+      HAIErrorJSON, 'code' | 'type' | 'param' | 'retryAfter' | 'model' | 'content' | 'errors' | 'shouldRetry'
+    >>;
+    return {
+      name: this.name,
+      errorCode: this.errorCode,
+      message: this.message,
+      status: this.statusCode,
+      code: error.code,
+      type: error.type,
+      param: error.param,
+      requestId: this.requestId,
+      retryAfter: error.retryAfter,
+      model: error.model,
+      content: error.content,
+      errors: error.errors,
+      shouldRetry: error.shouldRetry
+    };
+  }
+
+  /**
+   * Rebuild an error serialised with `toJSON()` through its original class's
+   * constructor. Unknown codes give a plain `HAIError`.
+   */
+  static fromJSON(json: HAIErrorJSON | string): HAIError {
+    const data: HAIErrorJSON = typeof json === 'string' ? JSON.parse(json) : json;
+    // The constructors read the request ID and Retry-After from the headers
+    const headers: Record<string, string> = {};
+    if (data.requestId !== undefined) {
+      headers['x-request-id'] = data.requestId;
+    }
+    if (data.retryAfter !== undefined) {
+      headers['retry-after'] = String(data.retryAfter);
+    }
+    const revive = ERROR_REVIVERS[data.errorCode] || ERROR_REVIVERS[HAIErrorCode.HAIError];
+
+    const error = revive(data, { statusCode: data.status, headers });
+    if (data.name) {
+      error.name = data.name;
+    }
+    for (const key of ['code', 'type', 'param'] as const) {
+      if (data[key] !== undefined) {
+        Object.assign(error, { [key]: data[key] });
+      }
+    }
+    return error;
+  }
 }
 
 /**
  * Raised when API key authentication fails.
  */
 export class AuthenticationError extends HAIError {
-  constructor(message: string, options?: { statusCode?: number; headers?: Record<string, string> }) {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.Authentication;
+
+  constructor(message: string, options?: { statusCode?: number; headers?: Record<string, string>; body?: any }) {
     super(message, options);
     this.name = 'AuthenticationError';
   }
@@ -46,6 +169,8 @@ export class AuthenticationError extends HAIError {
  * Raised when no API key is provided.
  */
 export class NoAPIKeyError extends AuthenticationError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.NoAPIKey;
+
   constructor() {
     super(
       'No API key provided. Set your API key using `new HAI({ apiKey: "..." })` ' +
@@ -60,10 +185,16 @@ export class NoAPIKeyError extends AuthenticationError {
  * Raised when the API key is invalid.
  */
 export class InvalidAPIKeyError extends AuthenticationError {
-  constructor(statusCode?: number, headers?: Record<string, string>) {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.InvalidAPIKey;
+
+  constructor(
+    statusCode?: number,
+    headers?: Record<string, string>,
+    options: { message?: string; body?: any } = {}
+  ) {
     super(
-      'Invalid API key. Check your API key at https://helpingai.co/dashboard',
-      { statusCode, headers }
+      options.message || 'Invalid API key. Check your API key at https://helpingai.co/dashboard',
+      { statusCode, headers, body: options.body }
     );
     this.name = 'InvalidAPIKeyError';
   }
@@ -73,7 +204,12 @@ export class InvalidAPIKeyError extends AuthenticationError {
  * Raised when the API key doesn't have permission for the requested operation.
  */
 export class PermissionDeniedError extends AuthenticationError {
-  constructor(message: string = 'Permission denied', options?: { statusCode?: number; headers?: Record<string, string> }) {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.PermissionDenied;
+
+  constructor(
+    message: string = 'Permission denied',
+    options?: { statusCode?: number; headers?: Record<string, string>; body?: any }
+  ) {
     super(message, options);
     this.name = 'PermissionDeniedError';
   }
@@ -83,6 +219,8 @@ export class PermissionDeniedError extends AuthenticationError {
  * Raised when the request parameters are invalid.
  */
 export class InvalidRequestError extends HAIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.InvalidRequest;
+
   public readonly param?: string;
   public readonly code?: string;
 
@@ -93,6 +231,7 @@ export class InvalidRequestError extends HAIError {
       code?: string;
       statusCode?: number;
       headers?: Record<string, string>;
+      body?: any;
     } = {}
   ) {
     super(message, options);
@@ -117,21 +256,30 @@ export class InvalidRequestError extends HAIError {
  * Raised when an invalid model is specified.
  */
 export class InvalidModelError extends InvalidRequestError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.InvalidModel;
+
+  public readonly model: string;
+
   constructor(
     model: string,
     statusCode?: number,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    options: { message?: string; code?: string; body?: any } = {}
   ) {
     super(
+      options.message ||
       `Model '${model}' not found. Available models can be found at ` +
       'https://api.helpingai.co/v1/models',
       {
         param: 'model',
+        code: options.code,
         statusCode,
-        headers
+        headers,
+        body: options.body
       }
     );
     this.name = 'InvalidModelError';
+    this.model = model;
   }
 }
 
@@ -139,14 +287,17 @@ export class InvalidModelError extends InvalidRequestError {
  * Raised when rate limit is exceeded.
  */
 export class RateLimitError extends HAIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.RateLimit;
+
   public readonly retryAfter?: number;
 
   constructor(
     message: string,
     statusCode?: number,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    body?: any
   ) {
-    super(message, { statusCode, headers });
+    super(message, { statusCode, headers, body });
     this.name = 'RateLimitError';
     this.retryAfter = this.getRetryAfterFromHeaders();
   }
@@ -175,8 +326,14 @@ export class RateLimitError extends HAIError {
  * Raised when too many requests are made within a time window.
  */
 export class TooManyRequestsError extends RateLimitError {
-  constructor(statusCode?: number, headers?: Record<string, string>) {
-    super('Too many requests', statusCode, headers);
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.TooManyRequests;
+
+  constructor(
+    statusCode?: number,
+    headers?: Record<string, string>,
+    options: { message?: string; body?: any } = {}
+  ) {
+    super(options.message || 'Too many requests', statusCode, headers, options.body);
     this.name = 'TooManyRequestsError';
   }
 }
@@ -185,8 +342,14 @@ export class TooManyRequestsError extends RateLimitError {
  * Raised when the API service is unavailable.
  */
 export class ServiceUnavailableError extends HAIError {
-  constructor(statusCode?: number, headers?: Record<string, string>) {
-    super('Service temporarily unavailable', { statusCode, headers });
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.ServiceUnavailable;
+
+  constructor(
+    statusCode?: number,
+    headers?: Record<string, string>,
+    options: { message?: string; body?: any } = {}
+  ) {
+    super(options.message || 'Service temporarily unavailable', { statusCode, headers, body: options.body });
     this.name = 'ServiceUnavailableError';
   }
 }
@@ -195,16 +358,36 @@ export class ServiceUnavailableError extends HAIError {
  * Raised when a request times out.
  */
 export class TimeoutError extends HAIError {
-  constructor(message: string = 'Request timed out') {
-    super(message);
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.Timeout;
+
+  constructor(
+    message: string = 'Request timed out',
+    options?: { statusCode?: number; headers?: Record<string, string>; body?: any }
+  ) {
+    super(message, options);
     this.name = 'TimeoutError';
   }
 }
 
+/**
+ * Raised when a request or stream is cancelled through an `AbortSignal`,
+ * `stream.abort()` or by stopping iteration early.
+ */
+export class APIUserAbortError extends HAIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.UserAbort;
+
+  constructor(message: string = 'Request was aborted') {
+    super(message);
+    this.name = 'APIUserAbortError';
+  }
+}
+
 /**
  * Raised when there are network issues connecting to the API.
  */
 export class APIConnectionError extends HAIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.Connection;
+
   public readonly shouldRetry: boolean;
 
   constructor(
@@ -223,6 +406,8 @@ export class APIConnectionError extends HAIError {
  * Generic API error.
  */
 export class APIError extends HAIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.API;
+
   public readonly code?: string;
   public readonly type?: string;
 
@@ -231,9 +416,10 @@ export class APIError extends HAIError {
     code?: string,
     type?: string,
     statusCode?: number,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    body?: any
   ) {
-    super(message, { statusCode, headers });
+    super(message, { statusCode, headers, body });
     this.name = 'APIError';
     this.code = code;
     this.type = type;
@@ -251,16 +437,50 @@ export class APIError extends HAIError {
   }
 }
 
+/**
+ * Raised when the requested resource does not exist (HTTP 404).
+ */
+export class NotFoundError extends APIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.NotFound;
+
+  constructor(
+    message: string = 'Resource not found',
+    options: { code?: string; type?: string; statusCode?: number; headers?: Record<string, string>; body?: any } = {}
+  ) {
+    super(message, options.code, options.type, options.statusCode, options.headers, options.body);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * Raised when the request conflicts with the current state of a resource,
+ * e.g. a reused idempotency key (HTTP 409).
+ */
+export class ConflictError extends APIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.Conflict;
+
+  constructor(
+    message: string = 'Request conflicts with the current state of the resource',
+    options: { code?: string; type?: string; statusCode?: number; headers?: Record<string, string>; body?: any } = {}
+  ) {
+    super(message, options.code, options.type, options.statusCode, options.headers, options.body);
+    this.name = 'ConflictError';
+  }
+}
+
 /**
  * Raised when the API server encounters an error.
  */
 export class ServerError extends APIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.Server;
+
   constructor(
     message: string = 'Internal server error',
     statusCode?: number,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    body?: any
   ) {
-    super(message, 'server_error', undefined, statusCode, headers);
+    super(message, 'server_error', undefined, statusCode, headers, body);
     this.name = 'ServerError';
   }
 }
@@ -269,15 +489,19 @@ export class ServerError extends APIError {
  * Raised when content is flagged by moderation filters.
  */
 export class ContentFilterError extends InvalidRequestError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.ContentFilter;
+
   constructor(
     message: string = 'Content violates content policy',
     statusCode?: number,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    body?: any
   ) {
     super(message, {
       code: 'content_filter',
       statusCode,
-      headers
+      headers,
+      body
     });
     this.name = 'ContentFilterError';
   }
@@ -287,15 +511,19 @@ export class ContentFilterError extends InvalidRequestError {
  * Raised when the token limit is exceeded.
  */
 export class TokenLimitError extends InvalidRequestError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.TokenLimit;
+
   constructor(
     message: string = 'Token limit exceeded',
     statusCode?: number,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    body?: any
   ) {
     super(message, {
       code: 'token_limit_exceeded',
       statusCode,
-      headers
+      headers,
+      body
     });
     this.name = 'TokenLimitError';
   }
@@ -305,16 +533,342 @@ export class TokenLimitError extends InvalidRequestError {
  * Raised when the provided content is invalid.
  */
 export class InvalidContentError extends InvalidRequestError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.InvalidContent;
+
   constructor(
     message: string = 'Invalid content provided',
     statusCode?: number,
-    headers?: Record<string, string>
+    headers?: Record<string, string>,
+    body?: any
   ) {
     super(message, {
       code: 'invalid_content',
       statusCode,
-      headers
+      headers,
+      body
     });
     this.name = 'InvalidContentError';
   }
 }
+
+/**
+ * Raised when the request is well-formed but cannot be processed, e.g. a
+ * parameter value the model does not support (HTTP 422).
+ */
+export class UnprocessableEntityError extends InvalidRequestError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.UnprocessableEntity;
+
+  constructor(
+    message: string = 'Request could not be processed',
+    options: { param?: string; code?: string; statusCode?: number; headers?: Record<string, string>; body?: any } = {}
+  ) {
+    super(message, options);
+    this.name = 'UnprocessableEntityError';
+  }
+}
+
+/**
+ * Raised when the request body is larger than the API accepts (HTTP 413).
+ */
+export class RequestTooLargeError extends InvalidRequestError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.RequestTooLarge;
+
+  constructor(
+    message: string = 'Request body too large',
+    options: { param?: string; code?: string; statusCode?: number; headers?: Record<string, string>; body?: any } = {}
+  ) {
+    super(message, options);
+    this.name = 'RequestTooLargeError';
+  }
+}
+
+/**
+ * Raised when structured output from the model is not valid JSON or does not
+ * match the requested schema.
+ */
+export class StructuredOutputError extends HAIError {
+  static readonly errorCode: HAIErrorCode = HAIErrorCode.StructuredOutput;
+
+  public readonly content: string;
+  public readonly errors: string[];
+
+  constructor(message: string, content: string, errors: string[] = []) {
+    super(message);
+    this.name = 'StructuredOutputError';
+    this.content = content;
+    this.errors = errors;
+  }
+
+  toString(): string {
+    let msg = super.toString();
+    if (this.errors.length > 0) {
+      msg = `${msg} (${this.errors.join('; ')})`;
+    }
+    return msg;
+  }
+}
+
+/**
+ * Fields read from an error payload, passed to the error factories.
+ */
+interface ErrorDetails {
+  message?: string; // The server's message, if it sent one
+  type?: string;
+  code?: string;
+  param?: string;
+  statusCode?: number;
+  headers: Record<string, string>;
+  body: any;
+}
+
+type ErrorFactory = (details: ErrorDetails) => HAIError;
+
+function extractModelName(details: ErrorDetails): string {
+  const match = details.message && details.message.match(/['"`]([^'"`]+)['"`]/);
+  return match ? match[1] : 'unknown';
+}
+
+const invalidRequest: ErrorFactory = d => new InvalidRequestError(d.message || 'Invalid request', d);
+const invalidAPIKey: ErrorFactory = d => new InvalidAPIKeyError(d.statusCode, d.headers, d);
+const permissionDenied: ErrorFactory = d => new PermissionDeniedError(d.message, d);
+const invalidModel: ErrorFactory = d => new InvalidModelError(extractModelName(d), d.statusCode, d.headers, d);
+const notFound: ErrorFactory = d => new NotFoundError(d.message, d);
+const timeout: ErrorFactory = d => new TimeoutError(d.message, d);
+const conflict: ErrorFactory = d => new ConflictError(d.message, d);
+const requestTooLarge: ErrorFactory = d => new RequestTooLargeError(d.message, d);
+const unprocessable: ErrorFactory = d => new UnprocessableEntityError(d.message, d);
+const tooManyRequests: ErrorFactory = d => new TooManyRequestsError(d.statusCode, d.headers, d);
+const contentFilter: ErrorFactory = d => new ContentFilterError(d.message, d.statusCode, d.headers, d.body);
+const tokenLimit: ErrorFactory = d => new TokenLimitError(d.message, d.statusCode, d.headers, d.body);
+const invalidContent: ErrorFactory = d => new InvalidContentError(d.message, d.statusCode, d.headers, d.body);
+const serverError: ErrorFactory = d => new ServerError(d.message, d.statusCode, d.headers, d.body);
+const serviceUnavailable: ErrorFactory = d => new ServiceUnavailableError(d.statusCode, d.headers, d);
+
+/**
+ * Error classes for the server's `code` or `type` field. These are more
+ * specific than the status and also apply to errors sent mid-stream, which
+ * have no status.
+ */
+const ERRORS_BY_CODE: Record<string, ErrorFactory> = {
+  invalid_api_key: invalidAPIKey,
+  permission_denied: permissionDenied,
+  permission_error: permissionDenied,
+  model_not_found: invalidModel,
+  invalid_model: invalidModel,
+  not_found_error: notFound,
+  request_too_large: requestTooLarge,
+  rate_limit_exceeded: tooManyRequests,
+  rate_limit_error: tooManyRequests,
+  content_filter: contentFilter,
+  content_filter_error: contentFilter,
+  content_policy_violation: contentFilter,
+  context_length_exceeded: tokenLimit,
+  token_limit_exceeded: tokenLimit,
+  invalid_content: invalidContent,
+  server_error: serverError,
+  overloaded_error: serviceUnavailable
+};
+
+/**
+ * Error classes by HTTP status, used when the code and type are not known.
+ */
+const ERRORS_BY_STATUS: Record<number, ErrorFactory> = {
+  400: invalidRequest,
+  401: invalidAPIKey,
+  403: permissionDenied,
+  404: notFound,
+  408: timeout,
+  409: conflict,
+  413: requestTooLarge,
+  422: unprocessable,
+  429: tooManyRequests,
+  503: serviceUnavailable
+};
+
+/**
+ * Map an error payload to the matching error class, looking at the server's
+ * `code`, then its `type`, then the HTTP status. The server's message and the
+ * parsed payload are kept on the error. Payloads that are not objects, such
+ * as a JSON `null`, are mapped by status alone.
+ */
+export function createErrorFromResponse(
+  status: number | undefined,
+  errorData: ErrorResponse | null | undefined,
+  headers: Record<string, string> = {}
+): HAIError {
+  const details: ErrorDetails = { statusCode: status, headers, body: errorData };
+
+  if (!errorData || typeof errorData !== 'object') {
+    if (typeof errorData === 'string' && errorData) {
+      details.message = errorData;
+    }
+  } else if (typeof errorData.error === 'object' && errorData.error !== null) {
+    // Nested format: {"error": {"message": "...", "type": "...", "code": "..."}}
+    details.message = errorData.error.message;
+    details.type = errorData.error.type;
+    details.code = errorData.error.code;
+    details.param = errorData.error.param;
+  } else if (typeof errorData.error === 'string') {
+    // Flat format: {"error": "Request failed with status code 400"}
+    details.message = errorData.error;
+  } else {
+    // Fallback for other formats
+    details.message = errorData.message;
+    details.type = errorData.type;
+    details.code = errorData.code;
+  }
+
+  let factory = (details.code && ERRORS_BY_CODE[details.code])
+    || (details.type && ERRORS_BY_CODE[details.type])
+    // Content filter types vary between API versions, e.g. 'content_filter_violation'
+    || (details.type && details.type.toLowerCase().includes('content_filter') ? contentFilter : undefined)
+    || (status !== undefined ? ERRORS_BY_STATUS[status] : undefined);
+  if (!factory && status !== undefined && status >= 500) {
+    factory = serverError;
+  }
+  if ((factory === invalidRequest || factory === notFound) && details.param === 'model') {
+    factory = invalidModel;
+  }
+  if (factory) {
+    return factory(details);
+  }
+  return new APIError(details.message || 'Unknown error', details.code, details.type, status, headers, errorData);
+}
+
+type ErrorReviver = (data: HAIErrorJSON, options: { statusCode?: number; headers: Record<string, string> }) => HAIError;
+
+/**
+ * How `HAIError.fromJSON` rebuilds each class, with defaults for fields that
+ * older serialised errors lack.
+ */
+const ERROR_REVIVERS: Record<HAIErrorCode, ErrorReviver> = {
+  [HAIErrorCode.HAIError]: (d, o) => new HAIError(d.message, o),
+  [HAIErrorCode.Authentication]: (d, o) => new AuthenticationError(d.message, o),
+  [HAIErrorCode.NoAPIKey]: () => new NoAPIKeyError(),
+  [HAIErrorCode.InvalidAPIKey]: (d, o) => new InvalidAPIKeyError(o.statusCode, o.headers, { message: d.message }),
+  [HAIErrorCode.PermissionDenied]: (d, o) => new PermissionDeniedError(d.message, o),
+  [HAIErrorCode.InvalidRequest]: (d, o) => new InvalidRequestError(d.message, { ...o, param: d.param, code: d.code }),
+  [HAIErrorCode.InvalidModel]: (d, o) =>
+    new InvalidModelError(d.model || 'unknown', o.statusCode, o.headers, { message: d.message, code: d.code }),
+  [HAIErrorCode.RateLimit]: (d, o) => new RateLimitError(d.message, o.statusCode, o.headers),
+  [HAIErrorCode.TooManyRequests]: (d, o) => new TooManyRequestsError(o.statusCode, o.headers, { message: d.message }),
+  [HAIErrorCode.ServiceUnavailable]: (d, o) => new ServiceUnavailableError(o.statusCode, o.headers, { message: d.message }),
+  [HAIErrorCode.Timeout]: (d, o) => new TimeoutError(d.message, o),
+  [HAIErrorCode.UserAbort]: d => new APIUserAbortError(d.message),
+  [HAIErrorCode.Connection]: (d, o) => new APIConnectionError(d.message, d.shouldRetry || false, o.statusCode, o.headers),
+  [HAIErrorCode.API]: (d, o) => new APIError(d.message, d.code, d.type, o.statusCode, o.headers),
+  [HAIErrorCode.NotFound]: (d, o) => new NotFoundError(d.message, { ...o, code: d.code, type: d.type }),
+  [HAIErrorCode.Conflict]: (d, o) => new ConflictError(d.message, { ...o, code: d.code, type: d.type }),
+  [HAIErrorCode.Server]: (d, o) => new ServerError(d.message, o.statusCode, o.headers),
+  [HAIErrorCode.ContentFilter]: (d, o) => new ContentFilterError(d.message, o.statusCode, o.headers),
+  [HAIErrorCode.TokenLimit]: (d, o) => new TokenLimitError(d.message, o.statusCode, o.headers),
+  [HAIErrorCode.InvalidContent]: (d, o) => new InvalidContentError(d.message, o.statusCode, o.headers),
+  [HAIErrorCode.UnprocessableEntity]: (d, o) =>
+    new UnprocessableEntityError(d.message, { ...o, param: d.param, code: d.code }),
+  [HAIErrorCode.RequestTooLarge]: (d, o) => new RequestTooLargeError(d.message, { ...o, param: d.param, code: d.code }),
+  [HAIErrorCode.StructuredOutput]: d => new StructuredOutputError(d.message, d.content || '', d.errors || [])
+};
+
+/**
+ * Whether `error` is an SDK error of the class with `code` or a subclass of
+ * it. Checks the error's brand instead of its prototype chain, so errors from
+ * another copy of the SDK match too.
+ */
+export function hasErrorCode(error: unknown, code: HAIErrorCode): boolean {
+  const codes = error !== null && typeof error === 'object' ? (error as any)[HAI_ERROR_BRAND] : undefined;
+  return Array.isArray(codes) && codes.includes(code);
+}
+
+// Type guards that work like `instanceof` across copies of the SDK
+
+export function isHAIError(error: unknown): error is HAIError {
+  return hasErrorCode(error, HAIErrorCode.HAIError);
+}
+
+export function isAuthenticationError(error: unknown): error is AuthenticationError {
+  return hasErrorCode(error, HAIErrorCode.Authentication);
+}
+
+export function isNoAPIKeyError(error: unknown): error is NoAPIKeyError {
+  return hasErrorCode(error, HAIErrorCode.NoAPIKey);
+}
+
+export function isInvalidAPIKeyError(error: unknown): error is InvalidAPIKeyError {
+  return hasErrorCode(error, HAIErrorCode.InvalidAPIKey);
+}
+
+export function isPermissionDeniedError(error: unknown): error is PermissionDeniedError {
+  return hasErrorCode(error, HAIErrorCode.PermissionDenied);
+}
+
+export function isInvalidRequestError(error: unknown): error is InvalidRequestError {
+  return hasErrorCode(error, HAIErrorCode.InvalidRequest);
+}
+
+export function isInvalidModelError(error: unknown): error is InvalidModelError {
+  return hasErrorCode(error, HAIErrorCode.InvalidModel);
+}
+
+export function isRateLimitError(error: unknown): error is RateLimitError {
+  return hasErrorCode(error, HAIErrorCode.RateLimit);
+}
+
+export function isTooManyRequestsError(error: unknown): error is TooManyRequestsError {
+  return hasErrorCode(error, HAIErrorCode.TooManyRequests);
+}
+
+export function isServiceUnavailableError(error: unknown): error is ServiceUnavailableError {
+  return hasErrorCode(error, HAIErrorCode.ServiceUnavailable);
+}
+
+export function isTimeoutError(error: unknown): error is TimeoutError {
+  return hasErrorCode(error, HAIErrorCode.Timeout);
+}
+
+export function isAPIUserAbortError(error: unknown): error is APIUserAbortError {
+  return hasErrorCode(error, HAIErrorCode.UserAbort);
+}
+
+export function isAPIConnectionError(error: unknown): error is APIConnectionError {
+  return hasErrorCode(error, HAIErrorCode.Connection);
+}
+
+export function isAPIError(error: unknown): error is APIError {
+  return hasErrorCode(error, HAIErrorCode.API);
+}
+
+export function isNotFoundError(error: unknown): error is NotFoundError {
+  return hasErrorCode(error, HAIErrorCode.NotFound);
+}
+
+export function isConflictError(error: unknown): error is ConflictError {
+  return hasErrorCode(error, HAIErrorCode.Conflict);
+}
+
+export function isServerError(error: unknown): error is ServerError {
+  return hasErrorCode(error, HAIErrorCode.Server);
+}
+
+export function isContentFilterError(error: unknown): error is ContentFilterError {
+  return hasErrorCode(error, HAIErrorCode.ContentFilter);
+}
+
+export function isTokenLimitError(error: unknown): error is TokenLimitError {
+  return hasErrorCode(error, HAIErrorCode.TokenLimit);
+}
+
+export function isInvalidContentError(error: unknown): error is InvalidContentError {
+  return hasErrorCode(error, HAIErrorCode.InvalidContent);
+}
+
+export function isUnprocessableEntityError(error: unknown): error is UnprocessableEntityError {
+  return hasErrorCode(error, HAIErrorCode.UnprocessableEntity);
+}
+
+export function isRequestTooLargeError(error: unknown): error is RequestTooLargeError {
+  return hasErrorCode(error, HAIErrorCode.RequestTooLarge);
+}
+
+export function isStructuredOutputError(error: unknown): error is StructuredOutputError {
+  return hasErrorCode(error, HAIErrorCode.StructuredOutput);
+}
@@ -20,12 +20,43 @@ export {
   TooManyRequestsError,
   ServiceUnavailableError,
   TimeoutError,
+  APIUserAbortError,
   APIConnectionError,
   APIError,
   ServerError,
+  NotFoundError,
+  ConflictError,
+  UnprocessableEntityError,
+  RequestTooLargeError,
   ContentFilterError,
   TokenLimitError,
-  InvalidContentError
+  InvalidContentError,
+  StructuredOutputError,
+  HAIErrorCode,
+  hasErrorCode,
+  isHAIError,
+  isAuthenticationError,
+  isNoAPIKeyError,
+  isInvalidAPIKeyError,
+  isPermissionDeniedError,
+  isInvalidRequestError,
+  isInvalidModelError,
+  isRateLimitError,
+  isTooManyRequestsError,
+  isServiceUnavailableError,
+  isTimeoutError,
+  isAPIUserAbortError,
+  isAPIConnectionError,
+  isAPIError,
+  isNotFoundError,
+  isConflictError,
+  isServerError,
+  isContentFilterError,
+  isTokenLimitError,
+  isInvalidContentError,
+  isUnprocessableEntityError,
+  isRequestTooLargeError,
+  isStructuredOutputError
 } from './errors';
 
 // Export types
@@ -34,6 +65,7 @@ export type {
   FunctionCall,
   ToolFunction,
   ToolCall,
+  ToolCallDelta,
   CompletionUsage,
   ChoiceDelta,
   ChatCompletionMessage,
@@ -41,10 +73,66 @@ export type {
   ChatCompletion,
   ChatCompletionChunk,
   Model,
+  ModelCapabilities,
+  ModelsOptions,
   ChatCompletionRequest,
+  ChatCompletionMessageParam,
+  SystemMessage,
+  UserMessage,
+  AssistantMessage,
+  ToolMessage,
+  FunctionMessage,
+  ContentPart,
+  TextContentPart,
+  ImageContentPart,
+  ChatCompletionRequestBase,
+  ChatCompletionRequestNonStreaming,
+  ChatCompletionRequestStreaming,
+  JSONSchema,
+  ResponseFormat,
+  ResponseFormatText,
+  ResponseFormatJSONObject,
+  ResponseFormatJSONSchema,
+  SchemaValidator,
+  ParseableResponseFormat,
+  ChatCompletionParseRequest,
+  ParsedChatCompletionMessage,
+  ParsedChoice,
+  ParsedChatCompletion,
+  RunnableTool,
+  ChatCompletionRunToolsRequest,
+  ChatCompletionToolRun,
+  ChatCompletionBatchOptions,
+  ChatCompletionBatchProgress,
+  ChatCompletionBatchResult,
+  ChatCompletionBatch,
+  ConversationOptions,
+  ConversationData,
+  ConversationParams,
   HAIClientOptions,
+  RetryOptions,
+  RequestOptions,
+  WithResponse,
+  TokenCountOptions,
+  ModelPrice,
+  UsageOptions,
+  UsageRecord,
+  UsageTotals,
+  UsageSnapshot,
+  UsageSnapshotOptions,
+  RateLimitOptions,
+  RateLimitInfo,
+  Middleware,
+  MiddlewareRequest,
+  MiddlewareNext,
+  ChatCompletionStreamEvents,
+  TagAction,
+  TagProcessorOptions,
+  TagProcessResult,
+  TagChunkResult,
   StreamingState,
-  ErrorResponse
+  ErrorResponse,
+  HAIErrorJSON
 } from './types';
 
 // Export models
@@ -52,6 +140,14 @@ export { Models } from './models';
 
 // Export chat classes
 export { Chat, ChatCompletions } from './client';
+export { APIPromise } from './api-promise';
+export { Conversation, Conversations } from './conversations';
+export { Tokens } from './tokens';
+export { UsageTracker } from './usage';
+export { ChatCompletionStream } from './stream';
+export { ToolCallAccumulator } from './tools';
+export { jsonSchemaResponseFormat, validateJSONSchema } from './structured';
+export { TagProcessor } from './tags';
 
 // Re-export HAI as default
 import { HAI } from './client';
@@ -0,0 +1,24 @@
+import { Middleware, MiddlewareNext, MiddlewareRequest } from './types';
+
+/**
+ * Chain middleware around a final handler. The first middleware runs
+ * outermost: it sees the request first and the response (or error) last.
+ * Calling `next` more than once from the same middleware is allowed, which
+ * lets a middleware re-send a request.
+ */
+export function composeMiddleware(middleware: Middleware[], handler: MiddlewareNext): MiddlewareNext {
+  return middleware.reduceRight<MiddlewareNext>(
+    (next, current) => (request: MiddlewareRequest) => current(request, next),
+    handler
+  );
+}
+
+/**
+ * Turn a middleware request body into what fetch expects.
+ */
+export function serializeBody(body: any): string | undefined {
+  if (body === undefined || body === null) {
+    return undefined;
+  }
+  return typeof body === 'string' ? body : JSON.stringify(body);
+}
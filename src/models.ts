@@ -1,101 +1,243 @@
-import { Model } from './types';
+import { HAIError, APIError, APIConnectionError, APIUserAbortError, TimeoutError, InvalidModelError } from './errors';
+import { Model, ModelCapabilities, ModelsOptions, RequestOptions } from './types';
+import { getContextWindow } from './tokens';
+
+const DEFAULT_CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Built-in metadata for the HelpingAI models, returned by the offline fallback
+ * when the API cannot be reached.
+ */
+const OFFLINE_MODELS: Model[] = [
+  {
+    id: 'Helpingai3-raw',
+    name: 'HelpingAI3 Raw',
+    description: 'Advanced language model with enhanced emotional intelligence, trained on emotional dialogues, therapeutic exchanges, and crisis response scenarios',
+    object: 'model',
+    owned_by: 'helpingai',
+    contextWindow: getContextWindow('Helpingai3-raw'),
+    capabilities: { reasoning: false }
+  },
+  {
+    id: 'Dhanishtha-2.0-preview',
+    name: 'Dhanishtha-2.0 Preview',
+    description: 'World\'s first intermediate thinking model with multi-phase reasoning, self-correction capabilities, and structured emotional reasoning (SER)',
+    object: 'model',
+    owned_by: 'helpingai',
+    contextWindow: getContextWindow('Dhanishtha-2.0-preview'),
+    capabilities: { reasoning: true }
+  }
+];
+
+interface CacheEntry {
+  models: Model[];
+  expiresAt: number;
+}
+
+/**
+ * Whether an error means the API could not be reached, as opposed to the API
+ * rejecting the request.
+ */
+function isOfflineError(error: unknown): boolean {
+  if (error instanceof APIConnectionError || error instanceof TimeoutError) {
+    return true;
+  }
+  return error instanceof HAIError && error.statusCode !== undefined && error.statusCode >= 500;
+}
+
+/**
+ * Wait for `promise`, rejecting with `APIUserAbortError` if `signal` aborts
+ * first. The promise itself keeps running.
+ */
+function untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(new APIUserAbortError());
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(new APIUserAbortError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+function firstNumber(...values: any[]): number | undefined {
+  for (const value of values) {
+    if (typeof value === 'number' && isFinite(value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function parseCapabilities(data: any): ModelCapabilities | undefined {
+  if (!data || typeof data !== 'object') {
+    return undefined;
+  }
+  const capabilities: ModelCapabilities = {};
+  for (const key of ['tools', 'reasoning', 'json_mode'] as const) {
+    if (typeof data[key] === 'boolean') {
+      capabilities[key] = data[key];
+    }
+  }
+  return capabilities;
+}
 
 /**
  * Models API interface for managing HelpingAI models.
  */
 export class Models {
   private client: any;
+  private cacheTTL: number;
+  private offlineFallback: boolean;
+  private cache = new Map<string, CacheEntry>();
+  private pending = new Map<string, Promise<Model[]>>();
 
-  constructor(client: any) {
+  constructor(client: any, options: ModelsOptions = {}) {
     this.client = client;
+    this.cacheTTL = options.cacheTTL !== undefined ? options.cacheTTL : DEFAULT_CACHE_TTL;
+    this.offlineFallback = options.offlineFallback || false;
   }
 
   /**
-   * List all available models.
+   * List all available models. Results are cached for the client's
+   * `models.cacheTTL`; requests with different `query` parameters are cached
+   * separately. Concurrent calls share one request, which no single caller's
+   * `signal` can cancel; aborting only stops that caller waiting for it.
+   * @param options Per-request options such as `timeout`, `signal` or `headers`.
    * @returns Promise<Model[]> A list of available models.
-   * @throws {APIError} If the request fails.
-   * @throws {AuthenticationError} If authentication fails.
+   * @throws {HAIError} If the request fails and the offline fallback is off.
    */
-  async list(): Promise<Model[]> {
+  async list(options: RequestOptions = {}): Promise<Model[]> {
+    const key = JSON.stringify(options.query || {});
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) {
+      return [...cached.models];
+    }
+
     try {
-      const response = await this.client.request(
-        'GET',
-        '/models',
-        {},
-        { authRequired: false } // Models endpoint is public
-      );
-      
-      if (Array.isArray(response)) {
-        return response.map((modelId: string) => this.createModelFromId(modelId));
-      }
-      
-      // Fallback response handling
-      return [];
+      const models = await untilAborted(this.load(key, options), options.signal);
+      return [...models];
     } catch (error) {
-      // Fallback to hardcoded models if API call fails
-      return [
-        {
-          id: 'Helpingai3-raw',
-          name: 'HelpingAI3 Raw',
-          description: 'Advanced language model with enhanced emotional intelligence and contextual awareness',
-          object: 'model'
-        },
-        {
-          id: 'Dhanishtha-2.0-preview',
-          name: 'Dhanishtha-2.0 Preview', 
-          description: 'Revolutionary reasoning AI model with intermediate thinking capabilities and multi-phase reasoning',
-          object: 'model'
-        }
-      ];
+      if (this.offlineFallback && isOfflineError(error)) {
+        return OFFLINE_MODELS.map(model => ({ ...model }));
+      }
+      throw error;
     }
   }
 
   /**
    * Retrieve a specific model.
    * @param modelId The ID of the model to retrieve.
+   * @param options Per-request options, used when the model list has to be fetched.
    * @returns Promise<Model> The requested model.
-   * @throws {Error} If the model doesn't exist.
+   * @throws {InvalidModelError} If the model doesn't exist.
+   * @throws {HAIError} If the model list cannot be fetched.
    */
-  async retrieve(modelId: string): Promise<Model> {
-    // Define available models with detailed information
-    const availableModels: Record<string, Model> = {
-      'Helpingai3-raw': {
-        id: 'Helpingai3-raw',
-        name: 'HelpingAI3 Raw',
-        description: 'Advanced language model with enhanced emotional intelligence, trained on emotional dialogues, therapeutic exchanges, and crisis response scenarios',
-        object: 'model'
-      },
-      'Dhanishtha-2.0-preview': {
-        id: 'Dhanishtha-2.0-preview',
-        name: 'Dhanishtha-2.0 Preview',
-        description: 'World\'s first intermediate thinking model with multi-phase reasoning, self-correction capabilities, and structured emotional reasoning (SER)',
-        object: 'model'
-      }
-    };
-
-    if (modelId in availableModels) {
-      return availableModels[modelId];
+  async retrieve(modelId: string, options: RequestOptions = {}): Promise<Model> {
+    const models = await this.list(options);
+    const model = models.find(m => m.id === modelId);
+    if (!model) {
+      throw new InvalidModelError(modelId);
     }
+    return model;
+  }
 
-    // Try to get from API as fallback
-    try {
-      const models = await this.list();
-      const model = models.find(m => m.id === modelId);
-      if (model) {
-        return model;
+  /**
+   * The context window of a model in a cached, unexpired model list, without
+   * fetching. `undefined` when no cached list has the model.
+   */
+  cachedContextWindow(modelId: string): number | undefined {
+    const now = Date.now();
+    for (const entry of this.cache.values()) {
+      const model = entry.expiresAt > now ? entry.models.find(m => m.id === modelId) : undefined;
+      if (model && model.contextWindow) {
+        return model.contextWindow;
       }
-    } catch (error) {
-      // Ignore error and continue to throw below
     }
+    return undefined;
+  }
+
+  /**
+   * Drop cached model lists so the next call fetches them again.
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  /**
+   * The in-flight request for `key`, started without the caller's signal so
+   * that other callers sharing it are not aborted with it.
+   */
+  private load(key: string, options: RequestOptions): Promise<Model[]> {
+    let pending = this.pending.get(key);
+    if (!pending) {
+      const shared = { ...options };
+      delete shared.signal;
+      pending = this.fetchModels(shared).then(models => {
+        if (this.cacheTTL > 0) {
+          this.cache.set(key, { models, expiresAt: Date.now() + this.cacheTTL });
+        }
+        return models;
+      });
+      const request = pending;
+      const forget = () => {
+        if (this.pending.get(key) === request) {
+          this.pending.delete(key);
+        }
+      };
+      request.then(forget, forget);
+      this.pending.set(key, request);
+    }
+    return pending;
+  }
+
+  private async fetchModels(options: RequestOptions): Promise<Model[]> {
+    const response = await this.client.request(
+      'GET',
+      '/models',
+      undefined,
+      { ...options, authRequired: false } // Models endpoint is public
+    );
 
-    throw new Error(`Model '${modelId}' not found. Available models: ${Object.keys(availableModels).join(', ')}`);
+    const data = Array.isArray(response) ? response : response && response.data;
+    if (!Array.isArray(data)) {
+      throw new APIError('Unexpected response from the models endpoint');
+    }
+    return data.map(item => this.parseModel(item));
   }
 
-  private createModelFromId(modelId: string): Model {
+  /**
+   * Build a `Model` from a `/models` entry. Older API versions return bare IDs.
+   */
+  private parseModel(data: any): Model {
+    if (typeof data === 'string') {
+      data = { id: data };
+    }
+    const id = String(data.id);
+    const known = OFFLINE_MODELS.find(model => model.id === id);
+
     return {
-      id: modelId,
-      name: modelId,
-      object: 'model'
+      id,
+      name: data.name || (known ? known.name : id),
+      version: data.version,
+      description: data.description || (known ? known.description : undefined),
+      object: data.object || 'model',
+      created: data.created,
+      owned_by: data.owned_by,
+      contextWindow: firstNumber(data.context_length, data.context_window) || getContextWindow(id),
+      capabilities: parseCapabilities(data.capabilities)
     };
   }
 }
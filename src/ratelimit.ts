@@ -0,0 +1,223 @@
+import { APIUserAbortError } from './errors';
+import { RateLimitInfo, RateLimitOptions } from './types';
+import { sleep } from './retry';
+
+/**
+ * Read the `x-ratelimit-*` headers of a response. Returns undefined when the
+ * response has none.
+ */
+export function parseRateLimitHeaders(headers: Record<string, string>): RateLimitInfo | undefined {
+  const info: RateLimitInfo = {
+    limitRequests: parseNumber(headers['x-ratelimit-limit-requests']),
+    limitTokens: parseNumber(headers['x-ratelimit-limit-tokens']),
+    remainingRequests: parseNumber(headers['x-ratelimit-remaining-requests']),
+    remainingTokens: parseNumber(headers['x-ratelimit-remaining-tokens']),
+    resetRequests: parseDuration(headers['x-ratelimit-reset-requests']),
+    resetTokens: parseDuration(headers['x-ratelimit-reset-tokens']),
+    updatedAt: Date.now()
+  };
+
+  const hasValues = Object.keys(info).some(key => key !== 'updatedAt' && (info as any)[key] !== undefined);
+  return hasValues ? info : undefined;
+}
+
+/**
+ * Parse a reset header into milliseconds. Accepts plain seconds ("1.5") and
+ * Go-style durations ("6m0s", "20ms", "1h2m").
+ */
+export function parseDuration(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const trimmed = value.trim();
+  if (/^\d+(\.\d+)?$/.test(trimmed)) {
+    return Math.round(parseFloat(trimmed) * 1000);
+  }
+
+  const units: Record<string, number> = { h: 3600000, m: 60000, s: 1000, ms: 1 };
+  const pattern = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(trimmed)) !== null) {
+    total += parseFloat(match[1]) * units[match[2]];
+    consumed += match[0].length;
+  }
+  return consumed === trimmed.length ? Math.round(total) : undefined;
+}
+
+/**
+ * Rough token estimate for a request body, used to charge the tokens-per-minute
+ * bucket before the real usage is known: about four characters per token for
+ * the messages, plus the completion budget.
+ */
+export function estimateRequestTokens(data: any): number {
+  if (!data || !data.messages) {
+    return 0;
+  }
+  const promptTokens = Math.ceil(JSON.stringify(data.messages).length / 4);
+  return promptTokens + (typeof data.max_tokens === 'number' ? data.max_tokens : 0);
+}
+
+class TokenBucket {
+  private capacity: number;
+  private available: number;
+  private refillPerMs: number;
+  private lastRefill: number;
+
+  constructor(perMinute: number) {
+    this.capacity = perMinute;
+    this.available = perMinute;
+    this.refillPerMs = perMinute / 60000;
+    this.lastRefill = Date.now();
+  }
+
+  /** Milliseconds until `amount` can be taken. */
+  waitTime(amount: number): number {
+    this.refill();
+    const needed = Math.min(amount, this.capacity);
+    return this.available >= needed ? 0 : Math.ceil((needed - this.available) / this.refillPerMs);
+  }
+
+  take(amount: number): void {
+    this.refill();
+    this.available -= Math.min(amount, this.capacity);
+  }
+
+  /** Give back (or charge) the difference once the real cost is known. */
+  adjust(amount: number): void {
+    this.refill();
+    this.available = Math.min(this.capacity, this.available + amount);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.available = Math.min(this.capacity, this.available + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
+
+interface Waiter {
+  tokens: number;
+  resolve: () => void;
+  cleanup?: () => void;
+}
+
+/**
+ * Client-side throttle with request and token buckets. Requests wait in FIFO
+ * order until both buckets have capacity, and until any limit the server
+ * reported as exhausted has reset.
+ */
+export class RateLimiter {
+  private requests?: TokenBucket;
+  private tokens?: TokenBucket;
+  private blockedUntil = 0;
+  private waiters: Waiter[] = [];
+  private draining = false;
+  private interrupt?: AbortController;
+
+  constructor(options: RateLimitOptions) {
+    if (options.requestsPerMinute) {
+      this.requests = new TokenBucket(options.requestsPerMinute);
+    }
+    if (options.tokensPerMinute) {
+      this.tokens = new TokenBucket(options.tokensPerMinute);
+    }
+  }
+
+  /**
+   * Wait for a turn to send a request expected to use `tokens` tokens.
+   * Aborting `signal` removes the request from the queue and rejects with
+   * `APIUserAbortError`.
+   */
+  acquire(tokens: number = 0, signal?: AbortSignal): Promise<void> {
+    if (signal && signal.aborted) {
+      return Promise.reject(new APIUserAbortError());
+    }
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens, resolve };
+      if (signal) {
+        const onAbort = () => {
+          const index = this.waiters.indexOf(waiter);
+          if (index === -1) return;
+          this.waiters.splice(index, 1);
+          if (index === 0 && this.interrupt) {
+            // The head was being waited for; re-check the wait for the next one
+            this.interrupt.abort();
+          }
+          reject(new APIUserAbortError());
+        };
+        signal.addEventListener('abort', onAbort, { once: true });
+        waiter.cleanup = () => signal.removeEventListener('abort', onAbort);
+      }
+      this.waiters.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Correct the token bucket once the actual usage of a request is known.
+   */
+  settle(estimatedTokens: number, actualTokens: number): void {
+    if (this.tokens) {
+      this.tokens.adjust(estimatedTokens - actualTokens);
+    }
+  }
+
+  /**
+   * Pause until the reset time when the server reports no remaining requests
+   * or tokens.
+   */
+  update(info: RateLimitInfo): void {
+    const resets: number[] = [];
+    if (info.remainingRequests === 0 && info.resetRequests !== undefined) {
+      resets.push(info.resetRequests);
+    }
+    if (info.remainingTokens === 0 && info.resetTokens !== undefined) {
+      resets.push(info.resetTokens);
+    }
+    if (resets.length > 0) {
+      this.blockedUntil = Math.max(this.blockedUntil, info.updatedAt + Math.max(...resets));
+    }
+  }
+
+  /**
+   * Let waiters through in order as capacity becomes available.
+   */
+  private async drain(): Promise<void> {
+    if (this.draining) return;
+    this.draining = true;
+    try {
+      while (this.waiters.length > 0) {
+        const waiter = this.waiters[0];
+        const wait = Math.max(
+          this.blockedUntil - Date.now(),
+          this.requests ? this.requests.waitTime(1) : 0,
+          this.tokens ? this.tokens.waitTime(waiter.tokens) : 0
+        );
+        if (wait > 0) {
+          this.interrupt = new AbortController();
+          await sleep(wait, this.interrupt.signal).catch(() => undefined);
+          this.interrupt = undefined;
+          continue;
+        }
+
+        this.waiters.shift();
+        if (this.requests) this.requests.take(1);
+        if (this.tokens) this.tokens.take(waiter.tokens);
+        if (waiter.cleanup) waiter.cleanup();
+        waiter.resolve();
+      }
+    } finally {
+      this.draining = false;
+    }
+  }
+}
+
+function parseNumber(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return isNaN(parsed) ? undefined : parsed;
+}
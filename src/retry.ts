@@ -0,0 +1,121 @@
+import { HAIError, APIConnectionError, APIUserAbortError, TimeoutError } from './errors';
+import { RetryOptions } from './types';
+
+declare function setTimeout(callback: () => void, ms: number): any;
+declare function clearTimeout(id: any): void;
+
+/**
+ * Retry policy used when neither the client nor the request overrides it.
+ * 400, 401 and other client errors are never retried because repeating them
+ * cannot succeed.
+ */
+export const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  maxRetries: 2,
+  initialDelay: 500,
+  maxDelay: 8000,
+  jitter: 0.25,
+  retryOnStatus: [408, 409, 429, 500, 502, 503, 504],
+  retryOn: [APIConnectionError, TimeoutError]
+};
+
+/**
+ * Merge retry options, later layers taking precedence over earlier ones.
+ */
+export function resolveRetryOptions(...layers: Array<RetryOptions | undefined>): Required<RetryOptions> {
+  const resolved: Required<RetryOptions> = { ...DEFAULT_RETRY_OPTIONS };
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of Object.keys(layer) as Array<keyof RetryOptions>) {
+      if (layer[key] !== undefined) {
+        (resolved as any)[key] = layer[key];
+      }
+    }
+  }
+  return resolved;
+}
+
+/**
+ * Decide whether a failed attempt should be retried under the given policy.
+ */
+export function isRetryableError(error: unknown, options: Required<RetryOptions>): boolean {
+  if (!(error instanceof HAIError)) {
+    return false;
+  }
+  if (error instanceof APIConnectionError && !error.shouldRetry) {
+    return false;
+  }
+  if (error.statusCode !== undefined) {
+    return options.retryOnStatus.includes(error.statusCode);
+  }
+  return options.retryOn.some(errorClass => error instanceof errorClass);
+}
+
+/**
+ * Parse the server's requested back-off from `retry-after-ms` or `retry-after`
+ * (seconds or an HTTP date). Returns milliseconds.
+ */
+export function parseRetryAfter(headers?: Record<string, string>): number | undefined {
+  if (!headers) return undefined;
+
+  const retryAfterMs = parseFloat(headers['retry-after-ms']);
+  if (!isNaN(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers['retry-after'];
+  if (!retryAfter) return undefined;
+
+  const seconds = parseFloat(retryAfter);
+  if (!isNaN(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(retryAfter);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Compute how long to wait before the given retry (1-based). A `Retry-After`
+ * header on the error wins over exponential backoff. Returns `undefined` when
+ * the server asks for a longer wait than `maxDelay`, so the error is thrown
+ * instead of blocking the caller.
+ */
+export function getRetryDelay(retry: number, error: unknown, options: Required<RetryOptions>): number | undefined {
+  const retryAfter = error instanceof HAIError ? parseRetryAfter(error.headers) : undefined;
+  if (retryAfter !== undefined) {
+    return retryAfter <= options.maxDelay ? retryAfter : undefined;
+  }
+
+  const backoff = Math.min(options.initialDelay * Math.pow(2, retry - 1), options.maxDelay);
+  const jitter = Math.min(Math.max(options.jitter, 0), 1);
+  return backoff * (1 - jitter * Math.random());
+}
+
+/**
+ * Wait for `ms` milliseconds. Rejects with `APIUserAbortError` as soon as
+ * `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(new APIUserAbortError());
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new APIUserAbortError());
+    };
+    const timer = setTimeout(() => {
+      if (signal) {
+        signal.removeEventListener('abort', onAbort);
+      }
+      resolve();
+    }, ms);
+    if (signal) {
+      signal.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+}
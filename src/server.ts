@@ -0,0 +1,284 @@
+/**
+ * A local stand-in for the HelpingAI API, started with `helpingai serve-mock`
+ * or from code with `MockServer`. It serves `/v1/chat/completions` and
+ * `/v1/models` over HTTP so tests can point `baseURL` at it and exercise the
+ * client's real request and streaming code.
+ */
+
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { MockTransport } from './transport';
+import { countMessageTokens, countTextTokens, getContextWindow } from './tokens';
+import {
+  ChatCompletionMessageParam,
+  MockCompletion,
+  MockRequest,
+  MockServerError,
+  MockServerOptions,
+  MockServerReply,
+  Model
+} from './types';
+
+const DEFAULT_MODELS: Array<Partial<Model>> = [
+  { id: 'Helpingai3-raw', capabilities: { tools: true, reasoning: false } },
+  { id: 'Dhanishtha-2.0-preview', capabilities: { tools: true, reasoning: true } }
+];
+
+// The transport only sees this URL, so request paths come out as '/chat/completions'
+const TRANSPORT_URL = 'http://mock-server/v1';
+
+function delay(ms: number | undefined): Promise<void> {
+  return ms && ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+}
+
+function isError(reply: MockServerReply): reply is MockServerError {
+  return typeof reply === 'object' && 'status' in reply;
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.setEncoding('utf8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+function sendJSON(res: ServerResponse, status: number, body: any): void {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+function sendError(res: ServerResponse, error: MockServerError): void {
+  const { status, message = `HTTP ${status}`, ...fields } = error;
+  sendJSON(res, status, { error: { message, ...fields } });
+}
+
+function textOf(message: ChatCompletionMessageParam | undefined): string {
+  if (!message || !message.content) {
+    return '';
+  }
+  if (typeof message.content === 'string') {
+    return message.content;
+  }
+  return message.content.map(part => (part.type === 'text' ? part.text : '')).join('');
+}
+
+/**
+ * Split content into word-sized stream steps, keeping tags in their own steps.
+ */
+function toSteps(content: string): string[] {
+  return content.split(/(?<=\s)|(?=<)|(?<=>)/).filter(step => step.length > 0);
+}
+
+/**
+ * An HTTP server that answers like the HelpingAI API. Replies come from the
+ * `script` option and `reply()`, in order; without one, the server echoes the
+ * last user message, wrapped in `<think>` and `<ser>` blocks for reasoning models.
+ */
+export class MockServer {
+  private options: MockServerOptions;
+  private models: Model[];
+  private script: MockServerReply[];
+  private transport = new MockTransport(TRANSPORT_URL);
+  private server?: Server;
+
+  constructor(options: MockServerOptions = {}) {
+    this.options = options;
+    this.script = [...(options.script || [])];
+    this.models = (options.models || DEFAULT_MODELS).map(model => {
+      const data = typeof model === 'string' ? { id: model } : model;
+      const id = data.id || 'mock-model';
+      return { name: id, object: 'model', owned_by: 'helpingai', contextWindow: getContextWindow(id), ...data, id } as Model;
+    });
+  }
+
+  /**
+   * The server's base URL, e.g. `http://127.0.0.1:8787/v1`. Set once listening.
+   */
+  get url(): string | undefined {
+    const address = this.server ? this.server.address() as AddressInfo | null : null;
+    if (!address) {
+      return undefined;
+    }
+    const host = address.address.includes(':') ? `[${address.address}]` : address.address;
+    return `http://${host}:${address.port}/v1`;
+  }
+
+  /**
+   * Chat requests received so far, oldest first.
+   */
+  get requests(): MockRequest[] {
+    return this.transport.requests;
+  }
+
+  /**
+   * Queue replies for the next chat requests.
+   */
+  reply(...replies: MockServerReply[]): this {
+    this.script.push(...replies);
+    return this;
+  }
+
+  /**
+   * Start listening. Resolves to the base URL to pass as the client's `baseURL`.
+   */
+  listen(port: number = this.options.port || 0, host: string = this.options.host || '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const server = createServer((req, res) => {
+        this.handle(req, res).catch(error => {
+          if (!res.headersSent) {
+            sendError(res, { status: 500, message: error.message, type: 'server_error' });
+          } else {
+            res.end();
+          }
+        });
+      });
+      server.once('error', reject);
+      server.listen(port, host, () => {
+        server.off('error', reject);
+        this.server = server;
+        resolve(this.url as string);
+      });
+    });
+  }
+
+  /**
+   * Stop the server, closing open connections.
+   */
+  close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return Promise.resolve();
+    }
+    this.server = undefined;
+    return new Promise((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      if (typeof (server as any).closeAllConnections === 'function') {
+        (server as any).closeAllConnections();
+      }
+    });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const path = (req.url || '/').split('?')[0].replace(/\/$/, '');
+    const apiKey = this.options.apiKey;
+    if (apiKey && req.headers.authorization !== `Bearer ${apiKey}`) {
+      return sendError(res, { status: 401, message: 'Invalid API key', type: 'authentication_error', code: 'invalid_api_key' });
+    }
+
+    if (req.method === 'GET' && path === '/v1/models') {
+      await delay(this.options.latency);
+      return sendJSON(res, 200, { object: 'list', data: this.models.map(model => this.toAPIModel(model)) });
+    }
+    if (req.method === 'POST' && path === '/v1/chat/completions') {
+      return this.chat(req, res);
+    }
+    sendError(res, { status: 404, message: `Unknown endpoint ${req.method} ${path}`, type: 'invalid_request_error' });
+  }
+
+  private async chat(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const text = await readBody(req);
+    let body: any;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      return sendError(res, { status: 400, message: 'Request body is not valid JSON', type: 'invalid_request_error' });
+    }
+    if (!body || !Array.isArray(body.messages)) {
+      return sendError(res, { status: 400, message: '`messages` is required', type: 'invalid_request_error', param: 'messages' });
+    }
+    const model = this.models.find(m => m.id === body.model);
+    if (!model) {
+      return sendError(res, {
+        status: 404,
+        message: `The model '${body.model}' does not exist`,
+        type: 'invalid_request_error',
+        code: 'model_not_found',
+        param: 'model'
+      });
+    }
+
+    let reply = this.script.shift();
+    const errorRate = this.options.errorRate || 0;
+    if (reply === undefined && errorRate > 0 && Math.random() < errorRate) {
+      reply = { status: this.options.errorStatus || 500, message: 'Injected error' };
+    }
+    if (reply === undefined) {
+      reply = this.echo(model, body.messages);
+    }
+
+    if (isError(reply)) {
+      await delay(this.options.latency);
+      this.transport.error(reply.status, reply.message, { code: reply.code, type: reply.type, param: reply.param });
+    } else {
+      const completion = typeof reply === 'string' ? { content: reply } : { ...reply };
+      await delay((this.options.latency || 0) + (completion.delay || 0));
+      delete completion.delay;
+      this.queue(completion, body);
+    }
+
+    const response = await this.transport.fetch(`${TRANSPORT_URL}/chat/completions`, {
+      method: 'POST',
+      headers: req.headers,
+      body: text
+    });
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    for await (const chunk of response.body) {
+      if (res.destroyed) {
+        return;
+      }
+      res.write(chunk);
+      if (response.headers.get('content-type') === 'text/event-stream') {
+        await delay(this.options.chunkDelay);
+      }
+    }
+    res.end();
+  }
+
+  private queue(completion: MockCompletion, body: any): void {
+    const content = completion.content || '';
+    const usage = completion.usage || {
+      prompt_tokens: countMessageTokens(body.messages),
+      completion_tokens: countTextTokens(content),
+      total_tokens: countMessageTokens(body.messages) + countTextTokens(content)
+    };
+
+    if (!body.stream) {
+      this.transport.complete({ ...completion, usage });
+      return;
+    }
+    const includeUsage = body.stream_options && body.stream_options.include_usage;
+    this.transport.stream([...toSteps(content), ...(completion.tool_calls || [])], {
+      finish_reason: completion.finish_reason,
+      model: completion.model,
+      usage: includeUsage ? usage : undefined
+    });
+  }
+
+  private echo(model: Model, messages: ChatCompletionMessageParam[]): MockCompletion {
+    const users = messages.filter(message => message.role === 'user');
+    const prompt = textOf(users[users.length - 1]);
+    const content = `You said: ${prompt}`;
+    if (model.capabilities && model.capabilities.reasoning) {
+      return {
+        content: `<think>The user wrote "${prompt}".</think><ser>Emotion: neutral\nResponse: repeat it back</ser>\n\n${content}`
+      };
+    }
+    return { content };
+  }
+
+  private toAPIModel(model: Model): Record<string, any> {
+    return {
+      id: model.id,
+      object: model.object,
+      created: model.created,
+      owned_by: model.owned_by,
+      name: model.name,
+      description: model.description,
+      context_length: model.contextWindow,
+      capabilities: model.capabilities
+    };
+  }
+}
@@ -0,0 +1,174 @@
+import { HAIError } from './errors';
+
+declare class TextDecoder {
+  decode(input?: Uint8Array, options?: { stream?: boolean }): string;
+}
+
+/**
+ * A single event dispatched from a `text/event-stream` response.
+ */
+export interface ServerSentEvent {
+  event: string | null;
+  data: string;
+  id: string | null;
+  retry: number | null;
+}
+
+/**
+ * Splits decoded text into lines, buffering partial lines across chunk
+ * boundaries. Accepts `\n`, `\r\n` and `\r` line terminators.
+ */
+export class LineDecoder {
+  private buffer = '';
+
+  decode(text: string): string[] {
+    this.buffer += text;
+    const lines: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < this.buffer.length; i++) {
+      const char = this.buffer[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      // A trailing \r may be the first half of a \r\n split across chunks
+      if (char === '\r' && i === this.buffer.length - 1) break;
+
+      lines.push(this.buffer.slice(start, i));
+      if (char === '\r' && this.buffer[i + 1] === '\n') {
+        i += 1;
+      }
+      start = i + 1;
+    }
+
+    this.buffer = this.buffer.slice(start);
+    return lines;
+  }
+
+  flush(): string[] {
+    if (!this.buffer) return [];
+    const line = this.buffer.replace(/\r$/, '');
+    this.buffer = '';
+    return [line];
+  }
+}
+
+/**
+ * Assembles lines into events following the Server-Sent Events specification:
+ * multi-line `data:` fields are joined with `\n`, comment lines are ignored and
+ * a blank line dispatches the pending event.
+ */
+export class SSEDecoder {
+  private data: string[] = [];
+  private event: string | null = null;
+  private lastEventId: string | null = null;
+  private retry: number | null = null;
+
+  decode(line: string): ServerSentEvent | null {
+    if (line === '') {
+      if (this.data.length === 0) {
+        this.event = null;
+        return null;
+      }
+
+      const sse: ServerSentEvent = {
+        event: this.event,
+        data: this.data.join('\n'),
+        id: this.lastEventId,
+        retry: this.retry
+      };
+      this.data = [];
+      this.event = null;
+      return sse;
+    }
+
+    // Comments, typically used as keep-alives
+    if (line.startsWith(':')) return null;
+
+    const separator = line.indexOf(':');
+    const field = separator === -1 ? line : line.slice(0, separator);
+    let value = separator === -1 ? '' : line.slice(separator + 1);
+    if (value.startsWith(' ')) {
+      value = value.slice(1);
+    }
+
+    switch (field) {
+      case 'data':
+        this.data.push(value);
+        break;
+      case 'event':
+        this.event = value;
+        break;
+      case 'id':
+        if (!value.includes('\0')) {
+          this.lastEventId = value;
+        }
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) {
+          this.retry = parseInt(value, 10);
+        }
+        break;
+    }
+    return null;
+  }
+}
+
+/**
+ * Iterate over the raw chunks of a response body. Supports WHATWG readable
+ * streams (browsers, native fetch) and Node.js streams (node-fetch).
+ */
+async function* iterBytes(body: any): AsyncIterable<Uint8Array | string> {
+  if (!body) {
+    throw new HAIError('Attempted to iterate over a response with no body');
+  }
+
+  if (typeof body.getReader === 'function') {
+    const reader = body.getReader();
+    let done = false;
+    try {
+      while (!done) {
+        const result = await reader.read();
+        done = result.done;
+        if (!done) yield result.value;
+      }
+    } finally {
+      if (!done) {
+        reader.cancel().catch(() => undefined);
+      }
+      reader.releaseLock();
+    }
+    return;
+  }
+
+  if (typeof body[Symbol.asyncIterator] === 'function') {
+    for await (const chunk of body) {
+      yield chunk;
+    }
+    return;
+  }
+
+  throw new HAIError('Unsupported response body type for streaming');
+}
+
+/**
+ * Decode a `text/event-stream` response body into Server-Sent Events.
+ */
+export async function* iterSSEMessages(body: any): AsyncIterable<ServerSentEvent> {
+  const textDecoder = new TextDecoder();
+  const lineDecoder = new LineDecoder();
+  const sseDecoder = new SSEDecoder();
+
+  for await (const chunk of iterBytes(body)) {
+    const text = typeof chunk === 'string' ? chunk : textDecoder.decode(chunk, { stream: true });
+    for (const line of lineDecoder.decode(text)) {
+      const sse = sseDecoder.decode(line);
+      if (sse) yield sse;
+    }
+  }
+
+  const remaining = [...lineDecoder.decode(textDecoder.decode()), ...lineDecoder.flush(), ''];
+  for (const line of remaining) {
+    const sse = sseDecoder.decode(line);
+    if (sse) yield sse;
+  }
+}
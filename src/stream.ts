@@ -0,0 +1,373 @@
+import { HAIError, APIUserAbortError } from './errors';
+import { ToolCallAccumulator } from './tools';
+import {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  ChatCompletionStreamEvents,
+  Choice,
+  CompletionUsage,
+  FunctionCall
+} from './types';
+
+interface ChoiceSnapshot {
+  index: number;
+  content?: string;
+  thinking: string;
+  inThink: boolean; // Whether the content scanned so far ends inside a <think> block
+  thinkCarry: string; // Unscanned end of the content that may be the start of a tag
+  ser: string;
+  functionCall?: FunctionCall;
+  finishReason?: string;
+  logprobs?: Record<string, any>;
+  emittedToolCalls: boolean;
+}
+
+type Listeners = {
+  [K in keyof ChatCompletionStreamEvents]?: Array<ChatCompletionStreamEvents[K]>;
+};
+
+const THINK_OPEN = '<think>';
+const THINK_CLOSE = '</think>';
+
+/**
+ * Length of the longest end of `text` that could be the start of `tag`.
+ */
+function partialTagLength(text: string, tag: string): number {
+  for (let i = Math.min(text.length, tag.length - 1); i > 0; i--) {
+    if (tag.startsWith(text.slice(-i))) {
+      return i;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Return the `<think>` text in a new content delta, scanning only the delta
+ * and the carried-over end of the previous one. A partially received tag is
+ * carried to the next delta, so the thinking text only ever grows.
+ */
+function scanThinking(snapshot: ChoiceSnapshot, delta: string): string {
+  let text = snapshot.thinkCarry + delta;
+  let thinking = '';
+
+  for (;;) {
+    const tag = snapshot.inThink ? THINK_CLOSE : THINK_OPEN;
+    const found = text.indexOf(tag);
+    if (found === -1) {
+      const keep = text.length - partialTagLength(text, tag);
+      if (snapshot.inThink) {
+        thinking += text.slice(0, keep);
+      }
+      snapshot.thinkCarry = text.slice(keep);
+      return thinking;
+    }
+    if (snapshot.inThink) {
+      thinking += text.slice(0, found);
+    }
+    text = text.slice(found + tag.length);
+    snapshot.inThink = !snapshot.inThink;
+  }
+}
+
+/**
+ * A streamed chat completion. Iterate it with `for await` to receive raw
+ * chunks, or use the helpers to listen for events and obtain the merged result.
+ * A stream can only be consumed once.
+ */
+export class ChatCompletionStream implements AsyncIterable<ChatCompletionChunk> {
+  public readonly controller: AbortController;
+
+  private source: AsyncIterable<ChatCompletionChunk>;
+  private listeners: Listeners = {};
+  private consumed = false;
+  private ended = false;
+
+  private id = '';
+  private created = 0;
+  private model = '';
+  private systemFingerprint?: string;
+  private usage?: CompletionUsage;
+  private choices = new Map<number, ChoiceSnapshot>();
+  private toolCalls = new ToolCallAccumulator();
+
+  private endPromise: Promise<ChatCompletion>;
+  private resolveEnd!: (completion: ChatCompletion) => void;
+  private rejectEnd!: (error: Error) => void;
+
+  constructor(source: AsyncIterable<ChatCompletionChunk>, controller: AbortController = new AbortController()) {
+    this.source = source;
+    this.controller = controller;
+    this.endPromise = new Promise<ChatCompletion>((resolve, reject) => {
+      this.resolveEnd = resolve;
+      this.rejectEnd = reject;
+    });
+    // Rejections are surfaced through iteration, listeners or the final* helpers
+    this.endPromise.catch(() => undefined);
+  }
+
+  /**
+   * Register a listener for a stream event.
+   */
+  on<E extends keyof ChatCompletionStreamEvents>(event: E, listener: ChatCompletionStreamEvents[E]): this {
+    const listeners = (this.listeners[event] || (this.listeners[event] = [])) as Array<ChatCompletionStreamEvents[E]>;
+    listeners.push(listener);
+    return this;
+  }
+
+  /**
+   * Remove a previously registered listener.
+   */
+  off<E extends keyof ChatCompletionStreamEvents>(event: E, listener: ChatCompletionStreamEvents[E]): this {
+    const listeners = this.listeners[event] as Array<ChatCompletionStreamEvents[E]> | undefined;
+    if (listeners) {
+      const index = listeners.indexOf(listener);
+      if (index !== -1) listeners.splice(index, 1);
+    }
+    return this;
+  }
+
+  /**
+   * Cancel the underlying HTTP request. Iteration stops after the current chunk
+   * and the final* helpers reject with `APIUserAbortError`.
+   */
+  abort(): void {
+    this.controller.abort();
+  }
+
+  async *[Symbol.asyncIterator](): AsyncIterator<ChatCompletionChunk> {
+    if (this.consumed) {
+      throw new HAIError('Cannot iterate over a consumed stream');
+    }
+    this.consumed = true;
+
+    let completed = false;
+    try {
+      for await (const chunk of this.source) {
+        if (this.controller.signal.aborted) break;
+        this.addChunk(chunk);
+        yield chunk;
+      }
+      completed = !this.controller.signal.aborted;
+    } catch (error: any) {
+      if (!this.controller.signal.aborted) {
+        this.fail(error);
+        throw error;
+      }
+    } finally {
+      if (completed) {
+        this.finish();
+      } else if (!this.ended) {
+        // Aborted, or the consumer stopped iterating early
+        this.controller.abort();
+        this.fail(new APIUserAbortError('Stream was aborted'), false);
+      }
+    }
+  }
+
+  /**
+   * Wait for the stream to end and return all chunks merged into a single
+   * `ChatCompletion`, including tool calls, finish reasons and usage.
+   */
+  async finalChatCompletion(): Promise<ChatCompletion> {
+    if (!this.consumed) {
+      const iterator = this[Symbol.asyncIterator]();
+      while (!(await iterator.next()).done) {
+        // Drain the stream so listeners still fire
+      }
+    }
+    return this.endPromise;
+  }
+
+  /**
+   * Wait for the stream to end and return the content of the first choice.
+   */
+  async finalContent(): Promise<string | null> {
+    const completion = await this.finalChatCompletion();
+    const message = completion.choices[0] && completion.choices[0].message;
+    return message && message.content !== undefined ? message.content : null;
+  }
+
+  /**
+   * Convert the stream to a `ReadableStream` of newline-delimited JSON chunks,
+   * e.g. to forward it from a server route to a browser. Needs the web streams
+   * globals, which Node.js has from version 18.
+   * @throws {HAIError} If `ReadableStream` or `TextEncoder` is not available.
+   */
+  toReadableStream(): ReadableStream<Uint8Array> {
+    if (typeof ReadableStream === 'undefined' || typeof TextEncoder === 'undefined') {
+      throw new HAIError('toReadableStream() needs the ReadableStream and TextEncoder globals (Node.js 18 or later, or a browser)');
+    }
+    const encoder = new TextEncoder();
+    const iterator = this[Symbol.asyncIterator]();
+
+    return new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        try {
+          const { value, done } = await iterator.next();
+          if (done) {
+            controller.close();
+            return;
+          }
+          controller.enqueue(encoder.encode(JSON.stringify(value) + '\n'));
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        if (iterator.return) {
+          await iterator.return();
+        }
+      }
+    });
+  }
+
+  private emit<E extends keyof ChatCompletionStreamEvents>(
+    event: E,
+    ...args: Parameters<ChatCompletionStreamEvents[E]>
+  ): void {
+    const listeners = this.listeners[event] as Array<(...params: any[]) => void> | undefined;
+    if (!listeners) return;
+    for (const listener of [...listeners]) {
+      listener(...args);
+    }
+  }
+
+  private addChunk(chunk: ChatCompletionChunk): void {
+    this.id = chunk.id || this.id;
+    this.created = chunk.created || this.created;
+    this.model = chunk.model || this.model;
+    this.systemFingerprint = chunk.system_fingerprint || this.systemFingerprint;
+    if (chunk.usage) {
+      this.usage = chunk.usage;
+    }
+
+    this.emit('chunk', chunk);
+
+    for (const choice of chunk.choices) {
+      this.addChoice(choice);
+    }
+  }
+
+  private addChoice(choice: Choice): void {
+    let snapshot = this.choices.get(choice.index);
+    if (!snapshot) {
+      snapshot = { index: choice.index, thinking: '', inThink: false, thinkCarry: '', ser: '', emittedToolCalls: false };
+      this.choices.set(choice.index, snapshot);
+    }
+
+    const delta = choice.delta || {};
+
+    if (delta.content) {
+      snapshot.content = (snapshot.content || '') + delta.content;
+      this.emit('content', delta.content, snapshot.content, snapshot.index);
+
+      const thinkingDelta = scanThinking(snapshot, delta.content);
+      if (thinkingDelta) {
+        snapshot.thinking += thinkingDelta;
+        this.emit('thinking', thinkingDelta, snapshot.thinking, snapshot.index);
+      }
+    }
+
+    // Reasoning that was already separated from the content (`extractReasoning`)
+    if (delta.reasoning_content) {
+      snapshot.thinking += delta.reasoning_content;
+      this.emit('thinking', delta.reasoning_content, snapshot.thinking, snapshot.index);
+    }
+    if (delta.ser_content) {
+      snapshot.ser += delta.ser_content;
+    }
+
+    if (delta.function_call) {
+      const current = snapshot.functionCall || { name: '', arguments: '' };
+      snapshot.functionCall = {
+        name: current.name + (delta.function_call.name || ''),
+        arguments: current.arguments + (delta.function_call.arguments || '')
+      };
+    }
+
+    for (const toolCallDelta of delta.tool_calls || []) {
+      const toolCall = this.toolCalls.addDelta(snapshot.index, toolCallDelta);
+      this.emit('toolCallDelta', toolCall, snapshot.index);
+    }
+
+    if (choice.logprobs) {
+      if (snapshot.logprobs && Array.isArray(snapshot.logprobs.content) && Array.isArray(choice.logprobs.content)) {
+        snapshot.logprobs = {
+          ...snapshot.logprobs,
+          content: [...snapshot.logprobs.content, ...choice.logprobs.content]
+        };
+      } else {
+        snapshot.logprobs = choice.logprobs;
+      }
+    }
+
+    if (choice.finish_reason) {
+      snapshot.finishReason = choice.finish_reason;
+      this.emitToolCalls(snapshot);
+    }
+  }
+
+  private emitToolCalls(snapshot: ChoiceSnapshot): void {
+    if (snapshot.emittedToolCalls) return;
+    snapshot.emittedToolCalls = true;
+    for (const toolCall of this.toolCalls.toolCalls(snapshot.index)) {
+      this.emit('toolCall', toolCall, snapshot.index);
+    }
+  }
+
+  private buildCompletion(): ChatCompletion {
+    const choices: Choice[] = Array.from(this.choices.values())
+      .sort((a, b) => a.index - b.index)
+      .map(snapshot => {
+        const toolCalls = this.toolCalls.toolCalls(snapshot.index);
+        const message: ChatCompletionMessage = {
+          role: 'assistant',
+          content: snapshot.content,
+          function_call: snapshot.functionCall,
+          tool_calls: toolCalls.length > 0 ? toolCalls : undefined
+        };
+        if (snapshot.thinking.trim()) message.reasoning = [snapshot.thinking.trim()];
+        if (snapshot.ser.trim()) message.ser = [snapshot.ser.trim()];
+
+        return {
+          index: snapshot.index,
+          message,
+          finish_reason: snapshot.finishReason,
+          logprobs: snapshot.logprobs
+        };
+      });
+
+    return {
+      id: this.id,
+      created: this.created,
+      model: this.model,
+      choices,
+      object: 'chat.completion',
+      system_fingerprint: this.systemFingerprint,
+      usage: this.usage
+    };
+  }
+
+  private finish(): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    for (const snapshot of this.choices.values()) {
+      this.emitToolCalls(snapshot);
+    }
+    const completion = this.buildCompletion();
+    this.resolveEnd(completion);
+    this.emit('end', completion);
+  }
+
+  private fail(error: Error, emit: boolean = true): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.rejectEnd(error);
+    if (emit) {
+      this.emit('error', error);
+    }
+  }
+}
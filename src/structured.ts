@@ -0,0 +1,246 @@
+import { StructuredOutputError } from './errors';
+import { JSONSchema, ParseableResponseFormat, ResponseFormatJSONSchema, SchemaValidator } from './types';
+
+/**
+ * Validate a value against a JSON Schema. Supports the keywords used for
+ * structured outputs: `type`, `enum`, `const`, `properties`, `required`,
+ * `additionalProperties`, `items`, `anyOf`, `oneOf`, `allOf`, local `$ref`s and
+ * the basic string, number and array bounds. Returns a list of problems.
+ */
+export function validateJSONSchema(
+  value: unknown,
+  schema: JSONSchema | boolean,
+  root: JSONSchema | boolean = schema,
+  path: string = '$'
+): string[] {
+  if (schema === true || schema === undefined) return [];
+  if (schema === false) return [`${path}: no value is allowed`];
+
+  if (typeof schema.$ref === 'string') {
+    const target = resolveRef(root, schema.$ref);
+    if (!target) return [`${path}: cannot resolve $ref '${schema.$ref}'`];
+    return validateJSONSchema(value, target, root, path);
+  }
+
+  const errors: string[] = [];
+
+  if (schema.type !== undefined) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => matchesType(value, type))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option: unknown) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if ('const' in schema && !deepEqual(schema.const, value)) {
+    errors.push(`${path}: must equal ${JSON.stringify(schema.const)}`);
+  }
+
+  if (Array.isArray(schema.anyOf) || Array.isArray(schema.oneOf)) {
+    const options: JSONSchema[] = schema.anyOf || schema.oneOf;
+    const matches = options.filter(option => validateJSONSchema(value, option, root, path).length === 0).length;
+    if (matches === 0 || (schema.oneOf && matches > 1)) {
+      errors.push(`${path}: does not match ${schema.oneOf ? 'exactly one' : 'any'} of the allowed schemas`);
+    }
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    for (const option of schema.allOf) {
+      errors.push(...validateJSONSchema(value, option, root, path));
+    }
+  }
+
+  if (typeof value === 'string') {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      errors.push(`${path}: must be at least ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      errors.push(`${path}: must be at most ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string' && !new RegExp(schema.pattern).test(value)) {
+      errors.push(`${path}: must match ${schema.pattern}`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (typeof schema.minimum === 'number' && value < schema.minimum) {
+      errors.push(`${path}: must be >= ${schema.minimum}`);
+    }
+    if (typeof schema.maximum === 'number' && value > schema.maximum) {
+      errors.push(`${path}: must be <= ${schema.maximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      errors.push(`${path}: must have at least ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      errors.push(`${path}: must have at most ${schema.maxItems} items`);
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, i) => {
+        errors.push(...validateJSONSchema(item, schema.items, root, `${path}[${i}]`));
+      });
+    }
+  }
+
+  if (isPlainObject(value)) {
+    const properties: Record<string, JSONSchema> = schema.properties || {};
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push(`${path}: missing required property '${key}'`);
+      }
+    }
+    for (const [key, propertyValue] of Object.entries(value)) {
+      if (key in properties) {
+        errors.push(...validateJSONSchema(propertyValue, properties[key], root, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`${path}: unexpected property '${key}'`);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        errors.push(...validateJSONSchema(propertyValue, schema.additionalProperties, root, `${path}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Create a `json_schema` response format that `chat.completions.parse()` can
+ * parse into `T`. Without a validator the content is checked against the JSON
+ * Schema itself; pass a validator (e.g. a Zod schema) to use it instead.
+ */
+export function jsonSchemaResponseFormat<T = unknown>(
+  name: string,
+  schema: JSONSchema,
+  options: {
+    description?: string;
+    strict?: boolean;
+    validator?: SchemaValidator<T>;
+  } = {}
+): ParseableResponseFormat<T> {
+  const format: ResponseFormatJSONSchema = {
+    type: 'json_schema',
+    json_schema: {
+      name,
+      description: options.description,
+      schema,
+      strict: options.strict !== undefined ? options.strict : true
+    }
+  };
+
+  // Non-enumerable so the parser is not serialised into the request body
+  Object.defineProperty(format, '$parse', {
+    value: (content: string) => parseStructuredContent<T>(content, schema, options.validator),
+    enumerable: false
+  });
+  return format as ParseableResponseFormat<T>;
+}
+
+/**
+ * Parse model output as JSON and validate it, throwing `StructuredOutputError`
+ * with the raw content on failure.
+ */
+export function parseStructuredContent<T>(
+  content: string,
+  schema?: JSONSchema,
+  validator?: SchemaValidator<T>
+): T {
+  let data: unknown;
+  try {
+    data = JSON.parse(stripCodeFence(content));
+  } catch (error: any) {
+    throw new StructuredOutputError(`Model output is not valid JSON: ${error.message}`, content);
+  }
+
+  if (validator && validator.safeParse) {
+    const result = validator.safeParse(data);
+    if (!result.success) {
+      throw new StructuredOutputError('Model output does not match the schema', content, describeValidatorError(result.error));
+    }
+    return result.data;
+  }
+
+  if (validator && validator.parse) {
+    try {
+      return validator.parse(data);
+    } catch (error: any) {
+      throw new StructuredOutputError('Model output does not match the schema', content, describeValidatorError(error));
+    }
+  }
+
+  if (schema) {
+    const errors = validateJSONSchema(data, schema);
+    if (errors.length > 0) {
+      throw new StructuredOutputError('Model output does not match the schema', content, errors);
+    }
+  }
+  return data as T;
+}
+
+function stripCodeFence(content: string): string {
+  const match = content.trim().match(/^```(?:json)?\s*\n([\s\S]*?)\n?```$/);
+  return match ? match[1] : content;
+}
+
+function describeValidatorError(error: any): string[] {
+  if (error && Array.isArray(error.issues)) {
+    return error.issues.map((issue: any) => {
+      const path = Array.isArray(issue.path) && issue.path.length > 0 ? `$.${issue.path.join('.')}` : '$';
+      return `${path}: ${issue.message}`;
+    });
+  }
+  return [error && error.message ? error.message : String(error)];
+}
+
+function resolveRef(root: JSONSchema | boolean, ref: string): JSONSchema | undefined {
+  if (typeof root === 'boolean') return undefined;
+  if (ref === '#') return root;
+  if (!ref.startsWith('#/')) return undefined;
+
+  let target: any = root;
+  for (const segment of ref.slice(2).split('/')) {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    target = target ? target[key] : undefined;
+  }
+  return target;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isPlainObject(value);
+    default:
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
@@ -0,0 +1,325 @@
+import {
+  ChatCompletion,
+  ChatCompletionChunk,
+  ChatCompletionMessage,
+  Choice,
+  ChoiceDelta,
+  StreamingState,
+  TagAction,
+  TagChunkResult,
+  TagProcessorOptions,
+  TagProcessResult
+} from './types';
+
+/**
+ * Handles tagged blocks such as `<think>...</think>` in model output. Each
+ * registered tag is either dropped, extracted into separate fields, or passed
+ * through untouched. Works on complete texts and on streamed chunks.
+ *
+ * Extracted `think` and `ser` blocks map to the `reasoning`/`reasoning_content`
+ * and `ser`/`ser_content` fields; other extracted tags are collected under
+ * `tags`/`tag_content` by tag name.
+ */
+export class TagProcessor {
+  private tags: Record<string, TagAction>;
+  private normalizeWhitespace: boolean;
+
+  constructor(options: TagProcessorOptions) {
+    this.tags = { ...options.tags };
+    this.normalizeWhitespace = options.normalizeWhitespace !== undefined ? options.normalizeWhitespace : true;
+  }
+
+  /**
+   * Processor used for `hideThink`: drops `<think>` and `<ser>` blocks.
+   */
+  static hideThink(): TagProcessor {
+    return new TagProcessor({ tags: { think: 'drop', ser: 'drop' } });
+  }
+
+  /**
+   * Processor used for `extractReasoning`: moves `<think>` and `<ser>` blocks
+   * out of the content.
+   */
+  static extractReasoning(): TagProcessor {
+    return new TagProcessor({ tags: { think: 'extract', ser: 'extract' } });
+  }
+
+  /**
+   * Return a copy of this processor with a tag registered or changed.
+   */
+  withTag(tag: string, action: TagAction): TagProcessor {
+    return new TagProcessor({
+      tags: { ...this.tags, [tag]: action },
+      normalizeWhitespace: this.normalizeWhitespace
+    });
+  }
+
+  /**
+   * Process a complete text. Extracted blocks are returned trimmed, one entry
+   * per block, in the order they appear.
+   */
+  process(text: string): TagProcessResult {
+    const extracted: Record<string, string[]> = {};
+    const tagNames = this.activeTags();
+    if (tagNames.length === 0) {
+      return { content: this.normalizeWhitespace ? normalizeText(text) : text, extracted };
+    }
+
+    const pattern = new RegExp(`<(${tagNames.map(escapeRegExp).join('|')})>([\\s\\S]*?)<\\/\\1>`, 'g');
+    const content = text.replace(pattern, (_block: string, tag: string, inner: string) => {
+      if (this.tags[tag] === 'extract') {
+        (extracted[tag] || (extracted[tag] = [])).push(inner.trim());
+      }
+      return '';
+    });
+
+    return { content: this.normalizeWhitespace ? normalizeText(content) : content, extracted };
+  }
+
+  /**
+   * Create the state for processing one stream of text (one choice).
+   */
+  createState(): StreamingState {
+    return {
+      activeTag: null,
+      buffer: '',
+      started: false,
+      consecutiveNewlines: 0,
+      lastCharWasSpace: false
+    };
+  }
+
+  /**
+   * Process the next piece of streamed text. Text that may be the start of a
+   * tag is held back in the state until the next call or `flush`.
+   */
+  processChunk(state: StreamingState, text: string): TagChunkResult {
+    const result: TagChunkResult = { content: '', extracted: {} };
+    const tagNames = this.activeTags();
+    const buffer = state.buffer + text;
+    let processedLen = 0;
+
+    while (processedLen < buffer.length) {
+      const remaining = buffer.slice(processedLen);
+
+      if (state.activeTag !== null) {
+        const closing = `</${state.activeTag}>`;
+        if (remaining.startsWith(closing)) {
+          state.activeTag = null;
+          processedLen += closing.length;
+          state.lastCharWasSpace = true;
+          continue;
+        }
+        if (closing.startsWith(remaining)) {
+          break;
+        }
+        if (this.tags[state.activeTag] === 'extract') {
+          appendExtracted(result, state.activeTag, buffer[processedLen]);
+        }
+        processedLen += 1;
+        continue;
+      }
+
+      const opened = tagNames.find(tag => remaining.startsWith(`<${tag}>`));
+      if (opened) {
+        state.activeTag = opened;
+        processedLen += opened.length + 2;
+        continue;
+      }
+
+      if (tagNames.some(tag => `<${tag}>`.startsWith(remaining))) {
+        break;
+      }
+
+      result.content += this.emitChar(state, buffer[processedLen]);
+      processedLen += 1;
+    }
+
+    state.buffer = buffer.slice(processedLen);
+    return result;
+  }
+
+  /**
+   * Release text held back at the end of a stream, e.g. a `<` that turned out
+   * not to start a tag.
+   */
+  flush(state: StreamingState): TagChunkResult {
+    const result: TagChunkResult = { content: '', extracted: {} };
+    const buffer = state.buffer;
+    state.buffer = '';
+
+    if (state.activeTag !== null) {
+      if (this.tags[state.activeTag] === 'extract' && buffer) {
+        appendExtracted(result, state.activeTag, buffer);
+      }
+      return result;
+    }
+
+    for (const char of buffer) {
+      result.content += this.emitChar(state, char);
+    }
+    return result;
+  }
+
+  /**
+   * Apply the processor to every choice of a completion.
+   */
+  processCompletion(completion: ChatCompletion): ChatCompletion {
+    const choices = completion.choices.map(choice => {
+      if (!choice.message || !choice.message.content) {
+        return choice;
+      }
+
+      const { content, extracted } = this.process(choice.message.content);
+      const message: ChatCompletionMessage = { ...choice.message, content };
+      for (const [tag, blocks] of Object.entries(extracted)) {
+        if (tag === 'think') {
+          message.reasoning = blocks;
+        } else if (tag === 'ser') {
+          message.ser = blocks;
+        } else {
+          message.tags = { ...message.tags, [tag]: blocks };
+        }
+      }
+      return { ...choice, message };
+    });
+
+    return { ...completion, choices };
+  }
+
+  /**
+   * Apply the processor to a stream of chunks, keeping separate state for
+   * each choice.
+   */
+  async* processStream(stream: AsyncIterable<ChatCompletionChunk>): AsyncIterable<ChatCompletionChunk> {
+    const states = new Map<number, StreamingState>();
+    let lastChunk: ChatCompletionChunk | undefined;
+
+    for await (const chunk of stream) {
+      lastChunk = chunk;
+      const choices: Choice[] = [];
+
+      for (const choice of chunk.choices) {
+        if (!choice.delta || (!choice.delta.content && !choice.finish_reason)) {
+          choices.push(choice);
+          continue;
+        }
+
+        let state = states.get(choice.index);
+        if (!state) {
+          state = this.createState();
+          states.set(choice.index, state);
+        }
+
+        const result = this.processChunk(state, choice.delta.content || '');
+        if (choice.finish_reason) {
+          mergeResults(result, this.flush(state));
+          states.delete(choice.index);
+        }
+
+        const delta = this.applyResult(choice.delta, result);
+        if (delta.content || delta.reasoning_content || delta.ser_content || delta.tag_content || choice.finish_reason) {
+          choices.push({ ...choice, delta });
+        }
+      }
+
+      // Keep usage-only chunks (`stream_options.include_usage`)
+      if (choices.length > 0 || chunk.usage) {
+        yield { ...chunk, choices };
+      }
+    }
+
+    // Streams that end without a finish_reason may still hold buffered text
+    if (lastChunk) {
+      const choices: Choice[] = [];
+      for (const [index, state] of states) {
+        const result = this.flush(state);
+        const delta = this.applyResult({}, result);
+        if (delta.content || delta.reasoning_content || delta.ser_content || delta.tag_content) {
+          choices.push({ index, delta });
+        }
+      }
+      if (choices.length > 0) {
+        yield { ...lastChunk, choices, usage: undefined };
+      }
+    }
+  }
+
+  private activeTags(): string[] {
+    return Object.keys(this.tags).filter(tag => this.tags[tag] !== 'pass');
+  }
+
+  private emitChar(state: StreamingState, char: string): string {
+    if (!this.normalizeWhitespace) {
+      return char;
+    }
+
+    if (!state.started && /\s/.test(char)) {
+      return '';
+    }
+    state.started = true;
+
+    if (char === '\n') {
+      state.consecutiveNewlines += 1;
+      state.lastCharWasSpace = false;
+      return state.consecutiveNewlines <= 2 ? char : '';
+    }
+    if (/\s/.test(char)) {
+      const output = state.lastCharWasSpace ? '' : ' ';
+      state.lastCharWasSpace = true;
+      return output;
+    }
+    state.consecutiveNewlines = 0;
+    state.lastCharWasSpace = false;
+    return char;
+  }
+
+  private applyResult(source: ChoiceDelta, result: TagChunkResult): ChoiceDelta {
+    const delta: ChoiceDelta = {
+      content: result.content || undefined,
+      role: source.role,
+      function_call: source.function_call,
+      tool_calls: source.tool_calls
+    };
+    for (const [tag, text] of Object.entries(result.extracted)) {
+      if (tag === 'think') {
+        delta.reasoning_content = text;
+      } else if (tag === 'ser') {
+        delta.ser_content = text;
+      } else {
+        delta.tag_content = { ...delta.tag_content, [tag]: text };
+      }
+    }
+    return delta;
+  }
+}
+
+/**
+ * Tidy text after blocks were removed from it.
+ */
+function normalizeText(text: string): string {
+  // Fix broken words that may have been split across lines
+  let result = text.replace(/(\w)-\s*\n\s*(\w)/g, '$1$2');
+
+  // Remove excessive empty lines (more than 2 consecutive newlines become 2)
+  result = result.replace(/\n{3,}/g, '\n\n');
+
+  // Remove extra spaces that might be left behind
+  result = result.replace(/ {2,}/g, ' ');
+  return result.trim();
+}
+
+function appendExtracted(result: TagChunkResult, tag: string, text: string): void {
+  result.extracted[tag] = (result.extracted[tag] || '') + text;
+}
+
+function mergeResults(target: TagChunkResult, source: TagChunkResult): void {
+  target.content += source.content;
+  for (const [tag, text] of Object.entries(source.extracted)) {
+    appendExtracted(target, tag, text);
+  }
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
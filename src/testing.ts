@@ -0,0 +1,154 @@
+/**
+ * Test helpers for code built on the HelpingAI SDK, available as
+ * `helpingai/testing`. `MockHAI` answers requests from a queue of canned
+ * responses; `Cassette` records real API interactions to a JSON file and
+ * replays them offline.
+ */
+
+declare const globalThis: any;
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { HAI } from './client';
+import { HAIError } from './errors';
+import { MockTransport, createResponse, parseBody } from './transport';
+import { CassetteInteraction, CassetteMode, CassetteOptions, HAIClientOptions } from './types';
+
+export { MockTransport, mockToolCall } from './transport';
+
+export type {
+  MockCompletion,
+  MockStreamStep,
+  MockStreamOptions,
+  MockErrorOptions,
+  MockRequest,
+  CassetteMode,
+  CassetteOptions,
+  CassetteInteraction
+} from './types';
+
+export { MockServer } from './server';
+export type { MockServerOptions, MockServerReply, MockServerError } from './types';
+
+/**
+ * A `HAI` client whose requests are answered by a `MockTransport`, available
+ * as `client.mock`. Retries are off unless set in `options`.
+ */
+export class MockHAI extends HAI {
+  public readonly mock: MockTransport;
+
+  constructor(options: HAIClientOptions = {}) {
+    const mock = new MockTransport(options.baseURL);
+    super({ apiKey: 'test-key', retry: { maxRetries: 0 }, ...options, fetch: mock.fetch });
+    this.mock = mock;
+  }
+}
+
+/**
+ * Records real API interactions to a JSON file and replays them offline. Pass
+ * `cassette.fetch` as the client's `fetch` option. Request headers, including
+ * the API key, are never written to the file.
+ */
+export class Cassette {
+  public readonly path: string;
+  public readonly mode: CassetteMode;
+  public interactions: CassetteInteraction[] = [];
+
+  private realFetch: any;
+  private loaded?: Promise<Exclude<CassetteMode, 'auto'>>;
+  private used = new Set<number>();
+
+  constructor(path: string, options: CassetteOptions = {}) {
+    this.path = path;
+    this.mode = options.mode || 'auto';
+    this.realFetch = options.fetch || globalThis.fetch;
+  }
+
+  /**
+   * The fetch implementation: records in record mode, replays in replay mode.
+   */
+  readonly fetch = async (url: string, init: any = {}): Promise<any> => {
+    const mode = await this.load();
+    const request = { method: init.method || 'GET', url, body: parseBody(init.body) };
+    return mode === 'record' ? this.record(request, init) : this.replay(request);
+  };
+
+  /**
+   * Write the recorded interactions to the cassette file.
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    await fs.writeFile(this.path, JSON.stringify({ interactions: this.interactions }, null, 2) + '\n');
+  }
+
+  private load(): Promise<Exclude<CassetteMode, 'auto'>> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        if (this.mode === 'record') {
+          return 'record';
+        }
+        let text: string;
+        try {
+          text = await fs.readFile(this.path, 'utf8');
+        } catch (error: any) {
+          if (this.mode === 'auto' && error.code === 'ENOENT') {
+            return 'record';
+          }
+          throw new HAIError(`Cannot read cassette ${this.path}: ${error.message}`);
+        }
+        this.interactions = JSON.parse(text).interactions || [];
+        return 'replay';
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async record(request: CassetteInteraction['request'], init: any): Promise<any> {
+    if (typeof this.realFetch !== 'function') {
+      throw new HAIError('Recording a cassette needs a fetch implementation');
+    }
+    const response = await this.realFetch(request.url, init);
+
+    const headers: Record<string, string> = {};
+    if (response.headers) {
+      response.headers.forEach((value: string, key: string) => {
+        if (key.toLowerCase() !== 'set-cookie') {
+          headers[key.toLowerCase()] = value;
+        }
+      });
+    }
+    const text = await response.text();
+    const stream = (headers['content-type'] || '').includes('text/event-stream');
+
+    this.interactions.push({
+      request,
+      response: { status: response.status, headers, body: stream ? text : parseBody(text) }
+    });
+    return createResponse(response.status, headers, text, stream ? splitEvents(text) : undefined);
+  }
+
+  private replay(request: CassetteInteraction['request']): any {
+    const body = JSON.stringify(request.body);
+    const index = this.interactions.findIndex((interaction, position) =>
+      !this.used.has(position)
+      && interaction.request.method === request.method
+      && interaction.request.url === request.url
+      && JSON.stringify(interaction.request.body) === body
+    );
+    if (index === -1) {
+      throw new HAIError(`No recorded interaction in ${this.path} matches ${request.method} ${request.url}`);
+    }
+    this.used.add(index);
+
+    const { status, headers, body: recorded } = this.interactions[index].response;
+    const stream = (headers['content-type'] || '').includes('text/event-stream');
+    return createResponse(status, headers, recorded, stream ? splitEvents(recorded) : undefined);
+  }
+}
+
+/**
+ * Split an event stream into its events so a replay arrives in chunks.
+ */
+function splitEvents(text: string): string[] {
+  return text.split(/(?<=\n\n)/).filter(part => part.length > 0);
+}
@@ -0,0 +1,136 @@
+import { TokenLimitError } from './errors';
+import { ChatCompletionMessageParam, TokenCountOptions } from './types';
+
+/**
+ * Context windows of the HelpingAI models, in tokens, shared between the
+ * prompt and the completion. These are fallbacks for when the `/models`
+ * endpoint has not reported a `context_length`.
+ */
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'Helpingai3-raw': 32768,
+  'Dhanishtha-2.0-preview': 32768
+};
+
+// Tokens added around every message for the role and separators
+const MESSAGE_OVERHEAD = 4;
+// Tokens that prime the assistant's reply
+const REPLY_OVERHEAD = 3;
+// Flat cost of an image part
+const IMAGE_TOKENS = 85;
+
+// Words with their leading space, short digit groups, single other characters, whitespace runs
+const PIECES = /\s?[A-Za-z]+|\s?\d{1,3}|\s?[^\sA-Za-z\d]|\s+/g;
+
+/**
+ * Return the context window of a model, or `undefined` for unknown models.
+ */
+export function getContextWindow(model: string): number | undefined {
+  return MODEL_CONTEXT_WINDOWS[model];
+}
+
+/**
+ * Approximate the number of tokens in a text. Latin words count one token per
+ * four letters, digits one per group of three, and every other character,
+ * including non-Latin scripts and punctuation, one token each.
+ */
+export function countTextTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(PIECES) || []) {
+    const word = piece.trim();
+    tokens += /^[A-Za-z]+$/.test(word) ? Math.ceil(word.length / 4) : 1;
+  }
+  return tokens;
+}
+
+/**
+ * Approximate the prompt tokens of a chat request: message contents, names,
+ * tool calls and tool definitions, plus the per-message overhead.
+ */
+export function countMessageTokens(
+  messages: ChatCompletionMessageParam[],
+  options: TokenCountOptions = {}
+): number {
+  let tokens = REPLY_OVERHEAD;
+
+  for (const message of messages) {
+    tokens += MESSAGE_OVERHEAD;
+
+    if (typeof message.content === 'string') {
+      tokens += countTextTokens(message.content);
+    } else if (Array.isArray(message.content)) {
+      for (const part of message.content) {
+        tokens += part.type === 'text' ? countTextTokens(part.text) : IMAGE_TOKENS;
+      }
+    }
+
+    if ('name' in message && message.name) {
+      tokens += countTextTokens(message.name);
+    }
+    if ('tool_calls' in message && message.tool_calls) {
+      for (const toolCall of message.tool_calls) {
+        tokens += MESSAGE_OVERHEAD
+          + countTextTokens(toolCall.function.name)
+          + countTextTokens(toolCall.function.arguments);
+      }
+    }
+  }
+
+  if (options.tools && options.tools.length > 0) {
+    tokens += countTextTokens(JSON.stringify(options.tools));
+  }
+
+  return tokens;
+}
+
+/**
+ * Reject a request whose prompt and `max_tokens` would not fit the model's
+ * context window, as given by `contextWindowOf`. Requests for models without
+ * a known window are not checked.
+ * @throws {TokenLimitError} If the request exceeds the context window.
+ */
+export function assertWithinContextWindow(
+  data: any,
+  contextWindowOf: (model: string) => number | undefined = getContextWindow
+): void {
+  if (!data || !Array.isArray(data.messages)) {
+    return;
+  }
+  const contextWindow = contextWindowOf(data.model);
+  if (!contextWindow) {
+    return;
+  }
+
+  const promptTokens = countMessageTokens(data.messages, { model: data.model, tools: data.tools });
+  const maxTokens = typeof data.max_tokens === 'number' ? data.max_tokens : 0;
+  if (promptTokens + maxTokens > contextWindow) {
+    const requested = maxTokens > 0
+      ? `about ${promptTokens} prompt tokens plus max_tokens ${maxTokens}`
+      : `about ${promptTokens} prompt tokens`;
+    throw new TokenLimitError(
+      `Request needs ${requested}, which exceeds the ${contextWindow}-token context window of ${data.model}`
+    );
+  }
+}
+
+/**
+ * Tokens API interface: offline token counts and context windows.
+ */
+export class Tokens {
+  /**
+   * Approximate the prompt tokens of `messages` without calling the API.
+   * Both HelpingAI models share the same approximation. It is not the
+   * models' exact tokenizer, so leave some headroom when filling a window.
+   * @param messages The messages that would be sent.
+   * @param options The model, and tool definitions to include in the count.
+   */
+  count(messages: ChatCompletionMessageParam[], options: TokenCountOptions = {}): number {
+    return countMessageTokens(messages, options);
+  }
+
+  /**
+   * Return the context window of a model, or `undefined` for unknown models.
+   */
+  contextWindow(model: string): number | undefined {
+    return getContextWindow(model);
+  }
+}
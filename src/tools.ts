@@ -0,0 +1,118 @@
+import { InvalidRequestError } from './errors';
+import { ChatCompletionChunk, RunnableTool, ToolCall, ToolCallDelta } from './types';
+
+/**
+ * Resolve the name a tool is registered under.
+ */
+export function getToolName(tool: RunnableTool): string {
+  const name = tool.name || tool.function.name;
+  if (!name) {
+    throw new InvalidRequestError(
+      'Tools must have a name. Pass `name` or use a named function as the implementation.',
+      { param: 'tools' }
+    );
+  }
+  return name;
+}
+
+/**
+ * Build the `tools` request parameter from runnable tools.
+ */
+export function toToolDefinitions(tools: RunnableTool[]): Array<Record<string, any>> {
+  return tools.map(tool => ({
+    type: 'function',
+    function: {
+      name: getToolName(tool),
+      description: tool.description,
+      parameters: tool.parameters || { type: 'object', properties: {} }
+    }
+  }));
+}
+
+/**
+ * Run a single tool call and return the content for the `tool` message.
+ * Failures are reported back to the model as text rather than thrown, so the
+ * model can correct its arguments or answer without the tool.
+ */
+export async function executeToolCall(
+  tools: Map<string, RunnableTool>,
+  toolCall: ToolCall
+): Promise<string> {
+  const tool = tools.get(toolCall.function.name);
+  if (!tool) {
+    return `Error: tool '${toolCall.function.name}' is not available`;
+  }
+
+  try {
+    const rawArguments = toolCall.function.arguments || '{}';
+    const args = tool.parse ? tool.parse(rawArguments) : JSON.parse(rawArguments);
+    const result = await tool.function(args);
+    if (typeof result === 'string') {
+      return result;
+    }
+    return result === undefined ? '' : JSON.stringify(result);
+  } catch (error: any) {
+    return `Error: ${error && error.message ? error.message : String(error)}`;
+  }
+}
+
+/**
+ * Accumulates streamed tool call fragments into complete `ToolCall`s, keyed by
+ * choice and tool call index. Fragments usually carry only an `index` and a
+ * piece of `arguments`; the id and name arrive with the first fragment.
+ */
+export class ToolCallAccumulator {
+  private choices = new Map<number, ToolCall[]>();
+
+  /**
+   * Add every tool call fragment in a chunk. Returns the snapshots of the tool
+   * calls that changed, with the index of the choice they belong to.
+   */
+  add(chunk: ChatCompletionChunk): Array<{ choiceIndex: number; toolCall: ToolCall }> {
+    const updated: Array<{ choiceIndex: number; toolCall: ToolCall }> = [];
+    for (const choice of chunk.choices) {
+      const deltas = choice.delta && choice.delta.tool_calls;
+      if (!deltas) continue;
+      for (const delta of deltas) {
+        updated.push({ choiceIndex: choice.index, toolCall: this.addDelta(choice.index, delta) });
+      }
+    }
+    return updated;
+  }
+
+  /**
+   * Merge a single fragment into the tool calls of a choice.
+   */
+  addDelta(choiceIndex: number, delta: ToolCallDelta): ToolCall {
+    let toolCalls = this.choices.get(choiceIndex);
+    if (!toolCalls) {
+      toolCalls = [];
+      this.choices.set(choiceIndex, toolCalls);
+    }
+
+    let toolCall = toolCalls[delta.index];
+    if (!toolCall) {
+      toolCall = { id: '', type: 'function', function: { name: '', arguments: '' } };
+      toolCalls[delta.index] = toolCall;
+    }
+
+    if (delta.id) toolCall.id = delta.id;
+    if (delta.type) toolCall.type = delta.type;
+    if (delta.function) {
+      if (delta.function.name && !toolCall.function.name) {
+        toolCall.function.name = delta.function.name;
+      }
+      toolCall.function.arguments += delta.function.arguments || '';
+    }
+    return toolCall;
+  }
+
+  /**
+   * The tool calls accumulated so far for a choice, in index order.
+   */
+  toolCalls(choiceIndex: number = 0): ToolCall[] {
+    return (this.choices.get(choiceIndex) || [])
+      .filter(Boolean)
+      .map(toolCall => ({ ...toolCall, function: { ...toolCall.function } }));
+  }
+}
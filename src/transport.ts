@@ -0,0 +1,255 @@
+/**
+ * The in-memory fetch behind `MockHAI` and `MockServer`. It answers requests
+ * from a queue of canned responses; `helpingai/testing` re-exports it.
+ */
+
+import { HAIError } from './errors';
+import {
+  ChatCompletionChunk,
+  ChoiceDelta,
+  MockCompletion,
+  MockErrorOptions,
+  MockRequest,
+  MockStreamOptions,
+  MockStreamStep,
+  ToolCall
+} from './types';
+
+const MOCK_MODEL = 'Helpingai3-raw';
+const DEFAULT_BASE_URL = 'https://api.helpingai.co/v1';
+
+type MockResponder = (request: MockRequest, signal?: AbortSignal) => any;
+
+/**
+ * The error fetch rejects with when its signal aborts. The client turns it
+ * into `APIUserAbortError` or `TimeoutError` depending on which signal fired.
+ */
+function abortError(): Error {
+  const error = new Error('This operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * A fetch-style response built from a status, headers and either a JSON body
+ * or the chunks of an event stream. Reading the body fails once `signal`
+ * aborts, as it does with a real fetch.
+ */
+export function createResponse(
+  status: number,
+  headers: Record<string, string>,
+  body: any,
+  chunks?: string[],
+  signal?: AbortSignal
+): any {
+  const headerMap = new Map<string, string>();
+  for (const key of Object.keys(headers)) {
+    headerMap.set(key.toLowerCase(), headers[key]);
+  }
+  const text = chunks ? chunks.join('') : typeof body === 'string' ? body : JSON.stringify(body);
+  const read = async () => {
+    if (signal && signal.aborted) {
+      throw abortError();
+    }
+    return text;
+  };
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    headers: headerMap,
+    json: async () => JSON.parse(await read()),
+    text: read,
+    body: (async function* () {
+      for (const chunk of chunks || [text]) {
+        if (signal && signal.aborted) {
+          throw abortError();
+        }
+        yield chunk;
+      }
+    })()
+  };
+}
+
+export function parseBody(body: any): any {
+  if (typeof body !== 'string') {
+    return body;
+  }
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+function isToolCall(step: MockStreamStep): step is ToolCall {
+  return typeof step === 'object' && 'function' in step && 'id' in step;
+}
+
+function sseChunk(data: any): string {
+  return `data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Build a tool call for `complete()` or `stream()`.
+ */
+export function mockToolCall(name: string, args: Record<string, any> | string = {}, id?: string): ToolCall {
+  return {
+    id: id || `call_${name}_${Math.random().toString(36).slice(2, 10)}`,
+    type: 'function',
+    function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) }
+  };
+}
+
+/**
+ * A fetch implementation that answers requests from a queue of canned
+ * responses, in order, and records every request it receives. Pass
+ * `transport.fetch` as the client's `fetch` option, or use `MockHAI`.
+ */
+export class MockTransport {
+  /** Requests received so far, oldest first. */
+  public readonly requests: MockRequest[] = [];
+
+  private baseURL: string;
+  private queue: MockResponder[] = [];
+  private counter = 0;
+
+  /**
+   * @param baseURL The client's base URL, stripped from `MockRequest.path`.
+   */
+  constructor(baseURL: string = DEFAULT_BASE_URL) {
+    this.baseURL = baseURL.replace(/\/$/, '');
+  }
+
+  /**
+   * Queue a chat completion.
+   */
+  complete(reply: string | MockCompletion): this {
+    const completion: MockCompletion = typeof reply === 'string' ? { content: reply } : reply;
+    return this.enqueue((request, signal) => {
+      const toolCalls = completion.tool_calls && completion.tool_calls.length > 0 ? completion.tool_calls : undefined;
+      return createResponse(200, { 'x-request-id': this.nextId('req') }, {
+        id: this.nextId('chatcmpl'),
+        object: 'chat.completion',
+        created: Math.floor(Date.now() / 1000),
+        model: completion.model || (request.body && request.body.model) || MOCK_MODEL,
+        choices: [{
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: completion.content !== undefined ? completion.content : null,
+            tool_calls: toolCalls
+          },
+          finish_reason: completion.finish_reason || (toolCalls ? 'tool_calls' : 'stop')
+        }],
+        usage: completion.usage
+      }, undefined, signal);
+    });
+  }
+
+  /**
+   * Queue a streamed chat completion. Each step becomes one chunk: strings are
+   * content deltas (including `<think>` blocks), tool calls are sent as tool
+   * call deltas, and other objects are used as the delta as-is.
+   */
+  stream(script: MockStreamStep[], options: MockStreamOptions = {}): this {
+    return this.enqueue((request, signal) => {
+      const id = this.nextId('chatcmpl');
+      const created = Math.floor(Date.now() / 1000);
+      const model = options.model || (request.body && request.body.model) || MOCK_MODEL;
+      const chunk = (choices: ChatCompletionChunk['choices'], extra: Partial<ChatCompletionChunk> = {}) =>
+        sseChunk({ id, object: 'chat.completion.chunk', created, model, choices, ...extra });
+
+      let toolCalls = 0;
+      const chunks = script.map((step, position) => {
+        let delta: ChoiceDelta;
+        if (typeof step === 'string') {
+          delta = { content: step };
+        } else if (isToolCall(step)) {
+          delta = { tool_calls: [{ index: toolCalls++, id: step.id, type: step.type, function: step.function }] };
+        } else {
+          delta = step;
+        }
+        if (position === 0) {
+          delta = { role: 'assistant', ...delta };
+        }
+        return chunk([{ index: 0, delta }]);
+      });
+
+      const finishReason = options.finish_reason || (toolCalls > 0 ? 'tool_calls' : 'stop');
+      chunks.push(chunk([{ index: 0, delta: {}, finish_reason: finishReason }]));
+      if (options.usage) {
+        chunks.push(chunk([], { usage: options.usage }));
+      }
+      chunks.push('data: [DONE]\n\n');
+
+      return createResponse(200, { 'content-type': 'text/event-stream', 'x-request-id': this.nextId('req') }, undefined, chunks, signal);
+    });
+  }
+
+  /**
+   * Queue an error response with the given HTTP status.
+   */
+  error(status: number, message: string = `HTTP ${status}`, options: MockErrorOptions = {}): this {
+    const { headers = {}, ...fields } = options;
+    return this.enqueue((request, signal) =>
+      createResponse(status, headers, { error: { message, ...fields } }, undefined, signal));
+  }
+
+  /**
+   * Queue any JSON response, e.g. for `/models`.
+   */
+  json(body: any, status: number = 200, headers: Record<string, string> = {}): this {
+    return this.enqueue((request, signal) => createResponse(status, headers, body, undefined, signal));
+  }
+
+  /**
+   * Number of queued responses that have not been used yet.
+   */
+  get pending(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Drop queued responses and recorded requests.
+   */
+  reset(): void {
+    this.queue = [];
+    this.requests.length = 0;
+  }
+
+  /**
+   * The fetch implementation. Rejects with `HAIError` when nothing is queued,
+   * and like a real fetch rejects with an `AbortError` when `init.signal` has
+   * aborted. Aborted requests are not recorded and leave the queue as it is.
+   */
+  readonly fetch = async (url: string, init: any = {}): Promise<any> => {
+    if (init.signal && init.signal.aborted) {
+      throw abortError();
+    }
+    const request: MockRequest = {
+      method: init.method || 'GET',
+      url,
+      path: (url.startsWith(this.baseURL) ? url.slice(this.baseURL.length) : new URL(url).pathname).split('?')[0],
+      headers: { ...init.headers },
+      body: parseBody(init.body)
+    };
+    this.requests.push(request);
+
+    const responder = this.queue.shift();
+    if (!responder) {
+      throw new HAIError(`No mock response queued for ${request.method} ${request.path}`);
+    }
+    return responder(request, init.signal);
+  };
+
+  private enqueue(responder: MockResponder): this {
+    this.queue.push(responder);
+    return this;
+  }
+
+  private nextId(prefix: string): string {
+    this.counter++;
+    return `${prefix}_mock_${this.counter}`;
+  }
+}
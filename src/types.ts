@@ -2,6 +2,9 @@
  * Type definitions for HelpingAI API responses and requests.
  */
 
+import type { TagProcessor } from './tags';
+import type { HAIError, HAIErrorCode } from './errors';
+
 export interface BaseModel {
   toDict(): Record<string, any>;
 }
@@ -26,6 +29,16 @@ export interface ToolCall {
   function: ToolFunction;
 }
 
+export interface ToolCallDelta {
+  index: number; // Position of the tool call within the choice, shared by all its fragments
+  id?: string;
+  type?: string;
+  function?: {
+    name?: string;
+    arguments?: string;
+  };
+}
+
 export interface CompletionUsage {
   completion_tokens: number;
   prompt_tokens: number;
@@ -35,14 +48,20 @@ export interface CompletionUsage {
 
 export interface ChoiceDelta {
   content?: string;
+  reasoning_content?: string; // Text inside <think> blocks, set when `extractReasoning` is enabled
+  ser_content?: string; // Text inside <ser> blocks, set when `extractReasoning` is enabled
+  tag_content?: Record<string, string>; // Text of other tags extracted by a custom TagProcessor
   function_call?: FunctionCall;
   role?: string;
-  tool_calls?: ToolCall[];
+  tool_calls?: ToolCallDelta[];
 }
 
 export interface ChatCompletionMessage {
-  role: string;
+  role: 'assistant';
   content?: string;
+  reasoning?: string[]; // Contents of each <think> block
+  ser?: string[]; // Contents of each <ser> (structured emotional reasoning) block
+  tags?: Record<string, string[]>; // Blocks of other tags extracted by a custom TagProcessor
   function_call?: FunctionCall;
   tool_calls?: ToolCall[];
 }
@@ -63,6 +82,7 @@ export interface ChatCompletion {
   object: string;
   system_fingerprint?: string;
   usage?: CompletionUsage;
+  _requestId?: string; // From the x-request-id response header
 }
 
 export interface ChatCompletionChunk {
@@ -72,6 +92,7 @@ export interface ChatCompletionChunk {
   choices: Choice[];
   object: string;
   system_fingerprint?: string;
+  usage?: CompletionUsage;
 }
 
 export interface Model {
@@ -80,53 +101,494 @@ export interface Model {
   version?: string;
   description?: string;
   object: string;
+  created?: number; // Unix timestamp
+  owned_by?: string;
+  contextWindow?: number; // Tokens shared by the prompt and the completion
+  capabilities?: ModelCapabilities;
+}
+
+export interface ModelCapabilities {
+  tools?: boolean;
+  reasoning?: boolean; // Emits <think> blocks
+  json_mode?: boolean;
 }
 
 // Request types
-export interface ChatCompletionRequest {
+export interface TextContentPart {
+  type: 'text';
+  text: string;
+}
+
+export interface ImageContentPart {
+  type: 'image_url';
+  image_url: {
+    url: string; // An https URL or a base64 data URL
+    detail?: 'auto' | 'low' | 'high';
+  };
+}
+
+export type ContentPart = TextContentPart | ImageContentPart;
+
+export interface SystemMessage {
+  role: 'system';
+  content: string | TextContentPart[];
+  name?: string;
+}
+
+export interface UserMessage {
+  role: 'user';
+  content: string | ContentPart[];
+  name?: string;
+}
+
+export interface AssistantMessage {
+  role: 'assistant';
+  content?: string | TextContentPart[] | null; // May be null when the message only carries tool calls
+  name?: string;
+  tool_calls?: ToolCall[];
+  function_call?: FunctionCall | null;
+}
+
+export interface ToolMessage {
+  role: 'tool';
+  content: string | TextContentPart[];
+  tool_call_id: string; // The id of the tool call this message answers
+}
+
+/** @deprecated Use tool calls and `ToolMessage` instead. */
+export interface FunctionMessage {
+  role: 'function';
+  content: string | null;
+  name: string;
+}
+
+export type ChatCompletionMessageParam =
+  | SystemMessage
+  | UserMessage
+  | AssistantMessage
+  | ToolMessage
+  | FunctionMessage;
+
+export type JSONSchema = Record<string, any>;
+
+export interface ResponseFormatText {
+  type: 'text';
+}
+
+export interface ResponseFormatJSONObject {
+  type: 'json_object';
+}
+
+export interface ResponseFormatJSONSchema {
+  type: 'json_schema';
+  json_schema: {
+    name: string;
+    description?: string;
+    schema?: JSONSchema;
+    strict?: boolean;
+  };
+}
+
+export type ResponseFormat = ResponseFormatText | ResponseFormatJSONObject | ResponseFormatJSONSchema;
+
+export interface ChatCompletionRequestBase {
   model: string;
-  messages: Array<{
-    role: string;
-    content: string;
-  }>;
+  messages: ChatCompletionMessageParam[];
   temperature?: number;
   max_tokens?: number;
   top_p?: number;
   frequency_penalty?: number;
   presence_penalty?: number;
   stop?: string | string[];
-  stream?: boolean;
   user?: string;
   n?: number;
   logprobs?: boolean;
   top_logprobs?: number;
-  response_format?: Record<string, string>;
+  response_format?: ResponseFormat;
   seed?: number;
   tools?: Array<Record<string, any>>;
   tool_choice?: string | Record<string, any>;
+  stream_options?: { include_usage?: boolean }; // include_usage adds a final chunk with the stream's usage
+  hideThink?: boolean; // Strip <think> and <ser> blocks from the output (SDK option, not sent to the API)
+  extractReasoning?: boolean; // Move <think> and <ser> blocks out of the content into reasoning fields (SDK option)
+  tagProcessor?: TagProcessor; // Custom handling of tagged blocks; takes precedence over hideThink/extractReasoning
+}
+
+export interface ChatCompletionRequestNonStreaming extends ChatCompletionRequestBase {
+  stream?: false;
+}
+
+export interface ChatCompletionRequestStreaming extends ChatCompletionRequestBase {
+  stream: true;
+}
+
+export interface ChatCompletionRequest extends ChatCompletionRequestBase {
+  stream?: boolean;
+}
+
+// Structured output types
+export interface SchemaValidator<T> {
+  // Zod-compatible: either `safeParse` or a throwing `parse` is enough
+  safeParse?: (data: unknown) => { success: true; data: T } | { success: false; error: any };
+  parse?: (data: unknown) => T;
+}
+
+export interface ParseableResponseFormat<T> extends ResponseFormatJSONSchema {
+  readonly $parse: (content: string) => T;
+}
+
+export interface ChatCompletionParseRequest<T> extends Omit<ChatCompletionRequestBase, 'response_format'> {
+  response_format: ParseableResponseFormat<T> | ResponseFormatJSONSchema;
+}
+
+export interface ParsedChatCompletionMessage<T> extends ChatCompletionMessage {
+  parsed: T | null; // null when the message has no content, e.g. only tool calls
+}
+
+export interface ParsedChoice<T> extends Choice {
+  message: ParsedChatCompletionMessage<T>;
+}
+
+export interface ParsedChatCompletion<T> extends ChatCompletion {
+  choices: ParsedChoice<T>[];
+}
+
+// Tool runner types
+export interface RunnableTool<Args = any> {
+  function: (args: Args) => unknown | Promise<unknown>;
+  name?: string; // Defaults to the implementation's function name
+  description?: string;
+  parameters?: Record<string, any>; // JSON Schema for the arguments
+  parse?: (args: string) => Args; // Defaults to JSON.parse
+}
+
+export interface ChatCompletionRunToolsRequest extends Omit<ChatCompletionRequestBase, 'tools'> {
+  tools: RunnableTool[];
+  maxIterations?: number; // Model calls before giving up (default: 10)
+  parallelToolCalls?: boolean; // Run the tool calls of one turn concurrently (default: true)
+}
+
+export interface ChatCompletionToolRun {
+  completion: ChatCompletion; // The final completion, without tool calls
+  messages: ChatCompletionMessageParam[]; // The conversation including tool calls and results
+  content: string | null;
+  iterations: number;
+}
+
+// Batch types
+export interface ChatCompletionBatchOptions {
+  concurrency?: number; // Requests in flight at once (default: 5)
+  onProgress?: (progress: ChatCompletionBatchProgress) => void;
+  stopOnError?: boolean; // Cancel the remaining requests after the first failure (default: false)
+  signal?: AbortSignal; // Cancels the requests that have not finished yet
+}
+
+export interface ChatCompletionBatchProgress {
+  total: number;
+  completed: number; // Requests that finished, successfully or not
+  succeeded: number;
+  failed: number;
+  result: ChatCompletionBatchResult; // The result that was just recorded
+}
+
+export type ChatCompletionBatchResult =
+  | { status: 'success'; index: number; completion: ChatCompletion }
+  | { status: 'error'; index: number; error: HAIError }
+  | { status: 'cancelled'; index: number };
+
+export interface ChatCompletionBatch {
+  results: ChatCompletionBatchResult[]; // In the order of the requests
+  usage: CompletionUsage; // Summed over the successful requests
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+}
+
+// Conversation types
+export type ConversationParams = Omit<ChatCompletionRequestBase, 'model' | 'messages'>;
+
+export interface ConversationOptions {
+  model: string;
+  system?: string; // System prompt sent before the history; never trimmed
+  maxContextTokens?: number; // Budget for the prompt plus max_tokens (default: the model's context window)
+  trimStrategy?: 'drop' | 'summarize'; // What happens to the oldest turns over budget (default: 'drop')
+  summarize?: (messages: ChatCompletionMessageParam[], previousSummary?: string) => Promise<string>; // Defaults to asking the model
+  countTokens?: (messages: ChatCompletionMessageParam[]) => number; // Defaults to hai.tokens.count
+  params?: ConversationParams; // Sent with every request, e.g. temperature or tools
+  messages?: ChatCompletionMessageParam[]; // Initial history, without the system prompt
+}
+
+export interface ConversationData {
+  model: string;
+  system?: string;
+  maxContextTokens?: number;
+  trimStrategy?: 'drop' | 'summarize';
+  params?: ConversationParams;
+  summary?: string;
+  messages: ChatCompletionMessageParam[];
 }
 
 // Configuration types
+export interface RetryOptions {
+  maxRetries?: number; // Retries after the first attempt (0 disables retrying)
+  initialDelay?: number; // Delay before the first retry, in milliseconds
+  maxDelay?: number; // Upper bound for the backoff delay, in milliseconds; longer Retry-After waits are not retried
+  jitter?: number; // Fraction of each delay that is randomised (0-1)
+  retryOnStatus?: number[]; // HTTP status codes that are retried
+  retryOn?: Array<new (...args: any[]) => Error>; // Error classes retried when there is no HTTP status
+}
+
 export interface HAIClientOptions {
   apiKey?: string;
   organization?: string;
   baseURL?: string;
-  timeout?: number;
+  timeout?: number; // Time allowed until the response headers arrive, in milliseconds
+  idleTimeout?: number; // Longest wait between two stream chunks (default: timeout)
+  retry?: RetryOptions;
+  middleware?: Middleware[]; // Run in order around every HTTP attempt
+  rateLimit?: RateLimitOptions; // Client-side throttling; off by default
+  models?: ModelsOptions;
+  usage?: UsageOptions | boolean; // Track token usage and cost in hai.usage; off by default
+  checkTokenLimit?: boolean; // Reject requests that exceed the model's context window before sending (default: false)
   fetch?: any; // Custom fetch implementation if needed
 }
 
+export interface ModelsOptions {
+  cacheTTL?: number; // How long hai.models.list results are reused, in milliseconds (default: 5 minutes; 0 disables)
+  offlineFallback?: boolean; // Return built-in metadata when the API cannot be reached (default: false)
+}
+
+// Token counting types
+export interface TokenCountOptions {
+  model?: string;
+  tools?: Array<Record<string, any>>; // Tool definitions sent with the messages
+}
+
+// Usage tracking types
+export interface ModelPrice {
+  prompt: number; // Price per million prompt tokens
+  completion: number; // Price per million completion tokens
+}
+
+export interface UsageOptions {
+  prices?: Record<string, ModelPrice>; // Keyed by model ID
+  onUsage?: (record: UsageRecord) => void | Promise<void>; // Called after each completion that reports usage; errors are ignored
+  retention?: number; // How long records are kept for windowed snapshots, in milliseconds (default: 24 hours)
+}
+
+export interface UsageRecord {
+  model: string;
+  user?: string; // The request's `user` field
+  requestId?: string;
+  usage: CompletionUsage;
+  cost?: number; // Undefined when the model has no price
+  timestamp: number;
+}
+
+export interface UsageTotals {
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+  cost: number; // Sum over the priced requests
+}
+
+export interface UsageSnapshotOptions {
+  since?: number | Date;
+  until?: number | Date;
+}
+
+export interface UsageSnapshot {
+  since: number;
+  until: number;
+  total: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byUser: Record<string, UsageTotals>;
+}
+
+// Rate limit types
+export interface RateLimitOptions {
+  requestsPerMinute?: number;
+  tokensPerMinute?: number; // Charged with an estimate, corrected from usage
+}
+
+export interface RateLimitInfo {
+  limitRequests?: number;
+  limitTokens?: number;
+  remainingRequests?: number;
+  remainingTokens?: number;
+  resetRequests?: number; // Milliseconds until the request limit resets
+  resetTokens?: number; // Milliseconds until the token limit resets
+  updatedAt: number; // Date.now() when the headers were read
+}
+
+export interface RequestOptions {
+  timeout?: number; // Overrides the client timeout for this request, in milliseconds
+  idleTimeout?: number; // Overrides the client idleTimeout for this stream
+  signal?: AbortSignal; // Aborts the request, or the stream once it has started
+  headers?: Record<string, string>; // Sent in addition to, and overriding, the default headers
+  query?: Record<string, string | number | boolean | undefined>;
+  retry?: RetryOptions; // Merged over the client's retry options
+  idempotencyKey?: string; // Sent as Idempotency-Key; reused by every retry of the request
+}
+
+// Raw response access
+export interface WithResponse<T> {
+  data: T;
+  response: any; // The raw fetch response
+  requestId?: string; // From the x-request-id header
+}
+
+// Middleware types
+export interface MiddlewareRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any; // JSON body; serialised before sending unless already a string
+  signal?: AbortSignal;
+}
+
+export type MiddlewareNext = (request: MiddlewareRequest) => Promise<any>;
+
+// Resolves to a fetch-style response; return one without calling next to short-circuit
+export type Middleware = (request: MiddlewareRequest, next: MiddlewareNext) => Promise<any>;
+
+// Tag processing types
+export type TagAction = 'drop' | 'extract' | 'pass';
+
+export interface TagProcessorOptions {
+  tags: Record<string, TagAction>; // Tag names without angle brackets, e.g. { think: 'extract' }
+  normalizeWhitespace?: boolean; // Collapse whitespace left behind by removed blocks (default: true)
+}
+
+export interface TagProcessResult {
+  content: string;
+  extracted: Record<string, string[]>; // Extracted blocks per tag
+}
+
+export interface TagChunkResult {
+  content: string;
+  extracted: Record<string, string>; // Extracted text per tag in this chunk
+}
+
 // Stream types
+export interface ChatCompletionStreamEvents {
+  chunk: (chunk: ChatCompletionChunk) => void;
+  content: (delta: string, snapshot: string, choiceIndex: number) => void;
+  thinking: (delta: string, snapshot: string, choiceIndex: number) => void;
+  toolCallDelta: (toolCall: ToolCall, choiceIndex: number) => void; // Partial tool call as fragments arrive
+  toolCall: (toolCall: ToolCall, choiceIndex: number) => void;
+  end: (completion: ChatCompletion) => void;
+  error: (error: Error) => void;
+}
+
 export interface StreamingState {
-  isReasoning: boolean;
-  isSer: boolean;
+  activeTag: string | null; // Tag whose block is currently open
+  buffer: string; // Text held back because it may be the start of a tag
+  started: boolean; // Whether content has been emitted; leading whitespace is skipped until then
+  consecutiveNewlines: number;
+  lastCharWasSpace: boolean;
+}
+
+// Testing types
+export interface MockCompletion {
+  content?: string | null;
+  tool_calls?: ToolCall[];
+  finish_reason?: string; // Default: 'tool_calls' when there are tool calls, otherwise 'stop'
+  usage?: CompletionUsage;
+  model?: string;
+}
+
+// A content string, a raw delta, or a tool call to send as a tool call delta
+export type MockStreamStep = string | ChoiceDelta | ToolCall;
+
+export interface MockStreamOptions {
+  finish_reason?: string; // Default: 'tool_calls' when the script has tool calls, otherwise 'stop'
+  usage?: CompletionUsage; // Sent in a final usage-only chunk
+  model?: string;
+}
+
+export interface MockErrorOptions {
+  code?: string;
+  type?: string;
+  param?: string;
+  headers?: Record<string, string>;
+}
+
+export interface MockRequest {
+  method: string;
+  url: string;
+  path: string; // URL path without the base URL or query, e.g. '/chat/completions'
+  headers: Record<string, string>;
+  body?: any; // Parsed JSON body
+}
+
+export type CassetteMode = 'record' | 'replay' | 'auto';
+
+export interface CassetteOptions {
+  mode?: CassetteMode; // 'auto' (default) replays when the file exists and records otherwise
+  fetch?: any; // Fetch used while recording (default: the global fetch)
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    body?: any;
+  };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: any; // Parsed JSON, or the raw text of event streams and non-JSON bodies
+  };
+}
+
+export interface MockServerError {
+  status: number;
+  message?: string;
+  code?: string;
+  type?: string;
+  param?: string;
+}
+
+// A scripted reply: the content, a completion (optionally with tool calls), or an error
+export type MockServerReply = string | (MockCompletion & { delay?: number }) | MockServerError;
+
+export interface MockServerOptions {
+  port?: number; // Default: 0, a free port
+  host?: string; // Default: '127.0.0.1'
+  models?: Array<string | Partial<Model>>; // Served by /v1/models (default: the HelpingAI models)
+  script?: MockServerReply[]; // Replies used in order before falling back to an echo of the prompt
+  latency?: number; // Delay before each response (ms)
+  chunkDelay?: number; // Delay between streamed chunks (ms)
+  errorRate?: number; // Fraction of chat requests answered with `errorStatus` (0-1)
+  errorStatus?: number; // Default: 500
+  apiKey?: string; // When set, requests must send this key
 }
 
 // Error response types
+export interface HAIErrorJSON {
+  name: string;
+  errorCode: HAIErrorCode;
+  message: string;
+  status?: number;
+  code?: string; // Error code from the server, or set by the SDK
+  type?: string;
+  param?: string;
+  requestId?: string;
+  retryAfter?: number; // Seconds, for rate limit errors
+  model?: string; // InvalidModelError
+  content?: string; // StructuredOutputError: the raw model output
+  errors?: string[]; // StructuredOutputError: validation errors
+  shouldRetry?: boolean; // APIConnectionError
+}
+
 export interface ErrorResponse {
   error: {
     message: string;
     type?: string;
     code?: string;
+    param?: string;
   } | string;
   message?: string;
   type?: string;
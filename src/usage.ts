@@ -0,0 +1,168 @@
+import {
+  CompletionUsage,
+  ModelPrice,
+  UsageOptions,
+  UsageRecord,
+  UsageSnapshot,
+  UsageSnapshotOptions,
+  UsageTotals
+} from './types';
+
+const DEFAULT_RETENTION = 24 * 60 * 60 * 1000;
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, cost: 0 };
+}
+
+function addToTotals(totals: UsageTotals, record: UsageRecord): void {
+  totals.requests++;
+  totals.prompt_tokens += record.usage.prompt_tokens || 0;
+  totals.completion_tokens += record.usage.completion_tokens || 0;
+  totals.total_tokens += record.usage.total_tokens || 0;
+  totals.cost += record.cost || 0;
+}
+
+function copyTotals(totals: Record<string, UsageTotals>): Record<string, UsageTotals> {
+  const copy: Record<string, UsageTotals> = {};
+  for (const key of Object.keys(totals)) {
+    copy[key] = { ...totals[key] };
+  }
+  return copy;
+}
+
+function toTime(value: number | Date | undefined): number | undefined {
+  return value instanceof Date ? value.getTime() : value;
+}
+
+/**
+ * Compute the cost of a request from per-million-token prices.
+ */
+export function computeCost(usage: CompletionUsage, price: ModelPrice): number {
+  return ((usage.prompt_tokens || 0) * price.prompt + (usage.completion_tokens || 0) * price.completion) / 1e6;
+}
+
+/**
+ * Sums token usage and cost over the lifetime of a client, by model and by
+ * the request's `user` tag. Individual records are kept for `retention`
+ * milliseconds so snapshots can be limited to a time window.
+ */
+export class UsageTracker {
+  private prices: Record<string, ModelPrice>;
+  private onUsage?: (record: UsageRecord) => void;
+  private retention: number;
+
+  private records: UsageRecord[] = [];
+  private total = emptyTotals();
+  private byModel: Record<string, UsageTotals> = {};
+  private byUser: Record<string, UsageTotals> = {};
+  private since = Date.now();
+
+  constructor(options: UsageOptions = {}) {
+    this.prices = { ...options.prices };
+    this.onUsage = options.onUsage;
+    this.retention = options.retention !== undefined ? options.retention : DEFAULT_RETENTION;
+  }
+
+  /**
+   * Add the usage of one completion. Called by the client for every
+   * completion that reports usage.
+   */
+  record(model: string, usage: CompletionUsage, details: { user?: string; requestId?: string } = {}): UsageRecord {
+    const price = this.prices[model];
+    const record: UsageRecord = {
+      model,
+      user: details.user,
+      requestId: details.requestId,
+      usage,
+      cost: price ? computeCost(usage, price) : undefined,
+      timestamp: Date.now()
+    };
+
+    addToTotals(this.total, record);
+    addToTotals(this.byModel[model] || (this.byModel[model] = emptyTotals()), record);
+    if (record.user !== undefined) {
+      addToTotals(this.byUser[record.user] || (this.byUser[record.user] = emptyTotals()), record);
+    }
+    this.records.push(record);
+    this.prune(record.timestamp);
+
+    if (this.onUsage) {
+      // The request already succeeded, so a failing hook must not affect it
+      try {
+        const result: any = this.onUsage(record);
+        if (result && typeof result.catch === 'function') {
+          result.catch(() => undefined);
+        }
+      } catch {
+        // Ignored
+      }
+    }
+    return record;
+  }
+
+  /**
+   * Return the totals since the tracker was created or last reset. With
+   * `since` or `until`, only the retained records in that window are summed.
+   */
+  snapshot(options: UsageSnapshotOptions = {}): UsageSnapshot {
+    const since = toTime(options.since);
+    const until = toTime(options.until);
+
+    if (since === undefined && until === undefined) {
+      return {
+        since: this.since,
+        until: Date.now(),
+        total: { ...this.total },
+        byModel: copyTotals(this.byModel),
+        byUser: copyTotals(this.byUser)
+      };
+    }
+
+    const snapshot: UsageSnapshot = {
+      since: Math.max(since !== undefined ? since : this.since, this.since),
+      until: until !== undefined ? until : Date.now(),
+      total: emptyTotals(),
+      byModel: {},
+      byUser: {}
+    };
+    for (const record of this.records) {
+      if (record.timestamp < snapshot.since || record.timestamp > snapshot.until) continue;
+      addToTotals(snapshot.total, record);
+      addToTotals(snapshot.byModel[record.model] || (snapshot.byModel[record.model] = emptyTotals()), record);
+      if (record.user !== undefined) {
+        addToTotals(snapshot.byUser[record.user] || (snapshot.byUser[record.user] = emptyTotals()), record);
+      }
+    }
+    return snapshot;
+  }
+
+  /**
+   * Clear all totals and records.
+   */
+  reset(): void {
+    this.records = [];
+    this.total = emptyTotals();
+    this.byModel = {};
+    this.byUser = {};
+    this.since = Date.now();
+  }
+
+  /**
+   * Set or replace the price of a model, in currency units per million tokens.
+   * Only usage recorded afterwards is priced with it.
+   */
+  setPrice(model: string, price: ModelPrice): void {
+    this.prices[model] = price;
+  }
+
+  private prune(now: number): void {
+    const cutoff = now - this.retention;
+    let expired = 0;
+    while (expired < this.records.length && this.records[expired].timestamp < cutoff) {
+      expired++;
+    }
+    if (expired > 0) {
+      this.records.splice(0, expired);
+    }
+  }
+}
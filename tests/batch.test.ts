@@ -0,0 +1,114 @@
+/**
+ * Tests for chat.completions.batch()
+ */
+
+import { HAI, HAIError, InvalidRequestError, ChatCompletionRequestNonStreaming } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+function prompt(content: string): ChatCompletionRequestNonStreaming {
+  return { model: 'Helpingai3-raw', messages: [{ role: 'user', content }] };
+}
+
+/**
+ * Fake fetch that answers each prompt with its upper-cased text after a delay
+ * and fails prompts starting with "fail".
+ */
+function createClient(delays: Record<string, number> = {}) {
+  let inFlight = 0;
+  let maxInFlight = 0;
+  const fetch = (_url: string, init: any) => new Promise((resolve, reject) => {
+    const content: string = JSON.parse(init.body).messages[0].content;
+    inFlight++;
+    maxInFlight = Math.max(maxInFlight, inFlight);
+
+    const timer = setTimeout(() => {
+      inFlight--;
+      if (content.startsWith('fail')) {
+        resolve({ ok: false, status: 400, headers: new Map(), json: async () => ({ error: { message: `Bad prompt ${content}` } }) });
+        return;
+      }
+      resolve({
+        ok: true,
+        status: 200,
+        headers: new Map(),
+        json: async () => ({
+          choices: [{ index: 0, message: { role: 'assistant', content: content.toUpperCase() } }],
+          usage: { prompt_tokens: 2, completion_tokens: 3, total_tokens: 5 }
+        })
+      });
+    }, delays[content] !== undefined ? delays[content] : 5);
+
+    init.signal.addEventListener('abort', () => {
+      clearTimeout(timer);
+      inFlight--;
+      reject(Object.assign(new Error('The operation was aborted'), { name: 'AbortError' }));
+    });
+  });
+  const client = new HAI({ apiKey: 'test-key', fetch, retry: { maxRetries: 0 } });
+  return { client, maxInFlight: () => maxInFlight };
+}
+
+describe('chat.completions.batch', () => {
+  test('should keep input order with a bounded pool and sum usage', async () => {
+    const { client, maxInFlight } = createClient({ a: 30, b: 1, c: 10, d: 1 });
+
+    const batch = await client.chat.completions.batch(['a', 'b', 'c', 'd'].map(prompt), { concurrency: 2 });
+
+    expect(maxInFlight()).toBe(2);
+    expect(batch.results.map(result => result.status === 'success' && result.completion.choices[0].message?.content))
+      .toEqual(['A', 'B', 'C', 'D']);
+    expect(batch.usage).toEqual({ prompt_tokens: 8, completion_tokens: 12, total_tokens: 20 });
+    expect(batch.succeeded).toBe(4);
+  });
+
+  test('should record failures per item and report progress', async () => {
+    const { client } = createClient();
+    const progress: number[] = [];
+
+    const batch = await client.chat.completions.batch([prompt('ok'), prompt('fail-1'), prompt('fine')], {
+      concurrency: 1,
+      onProgress: ({ completed }) => progress.push(completed)
+    });
+
+    expect(batch.results[1]).toEqual({ status: 'error', index: 1, error: expect.any(InvalidRequestError) });
+    expect(batch.results[2].status).toBe('success');
+    expect({ succeeded: batch.succeeded, failed: batch.failed, cancelled: batch.cancelled })
+      .toEqual({ succeeded: 2, failed: 1, cancelled: 0 });
+    expect(progress).toEqual([1, 2, 3]);
+  });
+
+  test('should cancel the rest of the batch with stopOnError', async () => {
+    const { client } = createClient({ slow: 50 });
+
+    const batch = await client.chat.completions.batch(
+      [prompt('fail'), prompt('slow'), prompt('never')],
+      { concurrency: 2, stopOnError: true }
+    );
+
+    expect(batch.results.map(result => result.status)).toEqual(['error', 'cancelled', 'cancelled']);
+    expect(batch.results[0].status === 'error' && batch.results[0].error).toBeInstanceOf(HAIError);
+  });
+
+  test('should stop when the signal is aborted', async () => {
+    const { client } = createClient({ first: 1, second: 1000 });
+    const controller = new AbortController();
+
+    const batch = await client.chat.completions.batch(
+      [prompt('first'), prompt('second'), prompt('third')],
+      { concurrency: 2, signal: controller.signal, onProgress: () => controller.abort() }
+    );
+
+    expect(batch.results.map(result => result.status)).toEqual(['success', 'cancelled', 'cancelled']);
+    expect(batch.cancelled).toBe(2);
+  });
+
+  test('should reject an invalid concurrency', async () => {
+    const { client } = createClient();
+
+    await expect(client.chat.completions.batch([prompt('a')], { concurrency: 0 })).rejects.toThrow(InvalidRequestError);
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for the helpingai command line
+ */
+
+import { PassThrough, Readable, Writable } from 'stream';
+import { main, parseArgs, exitCodeFor } from '../src/cli';
+import { MockServer } from '../src/testing';
+import { APIUserAbortError, NoAPIKeyError, TooManyRequestsError, ServerError, TimeoutError, InvalidModelError } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const beforeEach: any;
+declare const afterEach: any;
+
+function output() {
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      stream.text += chunk.toString();
+      callback();
+    }
+  }) as Writable & { text: string };
+  stream.text = '';
+  return stream;
+}
+
+function input(text: string, isTTY: boolean = false) {
+  return Object.assign(Readable.from([Buffer.from(text)]), { isTTY });
+}
+
+describe('CLI', () => {
+  test('should parse flags and positional arguments', () => {
+    expect(parseArgs(['chat', '-m', 'Helpingai3-raw', '--json', 'Hi', '--port=0', '--', '--literal'], ['json'])).toEqual({
+      positional: ['chat', 'Hi', '--literal'],
+      flags: { m: 'Helpingai3-raw', json: true, port: '0' }
+    });
+  });
+
+  test('should expand short flag aliases', () => {
+    expect(parseArgs(['-m', 'x', '-i'], ['interactive'], { m: 'model', i: 'interactive' }).flags).toEqual({ model: 'x', interactive: true });
+  });
+
+  test('should map errors to exit codes', () => {
+    expect(exitCodeFor(new NoAPIKeyError())).toBe(3);
+    expect(exitCodeFor(new InvalidModelError('gpt-4'))).toBe(4);
+    expect(exitCodeFor(new TooManyRequestsError())).toBe(5);
+    expect(exitCodeFor(new ServerError('boom', 500))).toBe(6);
+    expect(exitCodeFor(new TimeoutError('slow'))).toBe(7);
+    expect(exitCodeFor(new APIUserAbortError())).toBe(130);
+    expect(exitCodeFor(new Error('other'))).toBe(1);
+  });
+
+  test('should print usage and exit 2 without a command', async () => {
+    const stderr = output();
+
+    expect(await main([], { stderr })).toBe(2);
+    expect(stderr.text).toContain('Usage: helpingai');
+    expect(await main(['nope'], { stderr })).toBe(2);
+    expect(stderr.text).toContain('Unknown command: nope');
+  });
+
+  test('should serve the mock API until stopped', async () => {
+    const stdout = output();
+    const controller = new AbortController();
+
+    const exit = main(['serve-mock', '--port', '0', '--models', 'a,b'], { stdout, signal: controller.signal });
+    while (!stdout.text.includes('listening')) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+    const url = stdout.text.trim().split(' ').pop() as string;
+    const response = await fetch(`${url}/models`);
+    const body: any = await response.json();
+    controller.abort();
+
+    expect(body.data.map((model: any) => model.id)).toEqual(['a', 'b']);
+    expect(await exit).toBe(0);
+  });
+
+  test('should reject invalid numbers', async () => {
+    const stderr = output();
+
+    expect(await main(['serve-mock', '--latency', 'soon'], { stderr })).toBe(2);
+    expect(stderr.text).toContain('--latency must be a number');
+  });
+});
+
+describe('CLI against the mock server', () => {
+  let server: MockServer;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    server = new MockServer();
+    env = { HAI_API_KEY: 'test-key', HAI_BASE_URL: await server.listen() };
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test('should stream a reply without the think block', async () => {
+    const stdout = output();
+
+    const code = await main(['chat', '-m', 'Dhanishtha-2.0-preview', '-s', 'Be brief', 'Hello', 'there'], { stdout, env });
+
+    expect(code).toBe(0);
+    expect(stdout.text).toBe('You said: Hello there\n');
+    expect(server.requests[0].body.messages[0]).toEqual({ role: 'system', content: 'Be brief' });
+  });
+
+  test('should show think blocks when asked', async () => {
+    const stdout = output();
+
+    await main(['chat', '--show-think', '-m', 'Dhanishtha-2.0-preview', 'Hi'], { stdout, env });
+
+    expect(stdout.text).toContain('<think>');
+  });
+
+  test('should read the prompt from stdin and print JSON', async () => {
+    const stdout = output();
+
+    const code = await main(['chat', '--json'], { stdin: input('From a pipe\n'), stdout, env });
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout.text).choices[0].message.content).toBe('You said: From a pipe');
+  });
+
+  test('should keep history in an interactive session', async () => {
+    const stdout = output();
+
+    const code = await main(['chat', '-i'], { stdin: input('First\n/clear\nSecond\nThird\n/exit\nIgnored\n'), stdout, env });
+
+    expect(code).toBe(0);
+    expect(stdout.text).toBe('You said: First\nYou said: Second\nYou said: Third\n');
+    expect(server.requests.map(request => request.body.messages.length)).toEqual([1, 1, 3]);
+  });
+
+  test('should stop the streaming reply and end the session on Ctrl-C', async () => {
+    const slow = new MockServer({ chunkDelay: 50 });
+    const stdout = output();
+    const stdin = Object.assign(new PassThrough(), { isTTY: true });
+    slow.reply('one two three four five six seven eight nine ten');
+
+    try {
+      const exit = main(['chat'], { stdin, stdout, env: { ...env, HAI_BASE_URL: await slow.listen() } });
+      stdin.write('Count\r');
+      while (!stdout.text.includes('one')) {
+        await new Promise(resolve => setTimeout(resolve, 10));
+      }
+      stdin.write('\x03');
+
+      expect(await exit).toBe(0);
+      expect(stdout.text).not.toContain('ten');
+    } finally {
+      await slow.close();
+    }
+  });
+
+  test('should list and retrieve models', async () => {
+    const stdout = output();
+
+    expect(await main(['models', 'list'], { stdout, env })).toBe(0);
+    expect(await main(['models', 'retrieve', 'Dhanishtha-2.0-preview', '--json'], { stdout, env })).toBe(0);
+
+    expect(stdout.text).toMatch(/^Helpingai3-raw +32768\nDhanishtha-2\.0-preview +32768\n/);
+    expect(stdout.text).toContain('"reasoning": true');
+  });
+
+  test('should list models without an API key', async () => {
+    const stdout = output();
+    const stderr = output();
+
+    expect(await main(['models', 'list'], { stdout, stderr, env: { HAI_BASE_URL: env.HAI_BASE_URL } })).toBe(0);
+
+    expect(stderr.text).toBe('');
+    expect(stdout.text).toContain('Helpingai3-raw');
+  });
+
+  test('should exit with the code of the API error', async () => {
+    const stdout = output();
+    const stderr = output();
+    server.reply({ status: 422, message: 'Cannot process that' });
+
+    expect(await main(['chat', 'Hi'], { stdout, stderr, env })).toBe(4);
+    expect(await main(['chat', '-m', 'gpt-4', 'Hi'], { stdout, stderr, env })).toBe(4);
+    expect(await main(['models', 'retrieve', 'gpt-4'], { stdout, stderr, env })).toBe(4);
+    expect(await main(['chat', 'Hi'], { stdout, stderr, env: { HAI_BASE_URL: env.HAI_BASE_URL } })).toBe(3);
+    expect(stderr.text).toContain('helpingai: Cannot process that');
+    expect(stdout.text).toBe('');
+  });
+});
@@ -2,13 +2,26 @@
  * Basic tests for the HelpingAI client
  */
 
-import { HAI, NoAPIKeyError } from '../src/index';
+import {
+  HAI,
+  NoAPIKeyError,
+  InvalidRequestError,
+  TooManyRequestsError,
+  ServerError,
+  ServiceUnavailableError,
+  TimeoutError,
+  APIUserAbortError,
+  ChatCompletionRequestNonStreaming,
+  ChatCompletionMessageParam
+} from '../src/index';
+import { getEventListeners } from 'events';
 
 // Jest type declarations
 declare const describe: any;
 declare const test: any;
 declare const expect: any;
 declare const beforeEach: any;
+declare const jest: any;
 declare const process: any;
 
 describe('HAI Client', () => {
@@ -70,4 +83,325 @@ describe('HAI Client', () => {
       expect(client.models).toBeDefined();
     });
   });
+
+  describe('Retries', () => {
+    const completion = {
+      id: 'chatcmpl-1',
+      created: 1,
+      model: 'Helpingai3-raw',
+      choices: [{ index: 0, message: { role: 'assistant', content: 'Hello!' }, finish_reason: 'stop' }]
+    };
+
+    function jsonResponse(status: number, body: any, headers: Record<string, string> = {}) {
+      return {
+        ok: status >= 200 && status < 300,
+        status,
+        headers: new Map(Object.entries(headers)),
+        json: async () => body
+      };
+    }
+
+    function createClient(responses: any[], retry: any = { initialDelay: 1, jitter: 0 }) {
+      const fetch = jest.fn(async () => responses.shift());
+      const client = new HAI({ apiKey: 'test-key', fetch, retry });
+      return { client, fetch };
+    }
+
+    const request: ChatCompletionRequestNonStreaming = {
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user', content: 'Hi' }]
+    };
+
+    test('should retry server errors and return the eventual response', async () => {
+      const { client, fetch } = createClient([
+        jsonResponse(500, { error: { message: 'boom' } }),
+        jsonResponse(502, { error: { message: 'bad gateway' } }),
+        jsonResponse(200, completion)
+      ]);
+
+      const result = await client.chat.completions.create(request);
+
+      expect(fetch).toHaveBeenCalledTimes(3);
+      expect(result.choices[0].message?.content).toBe('Hello!');
+    });
+
+    test('should not retry client errors', async () => {
+      const { client, fetch } = createClient([
+        jsonResponse(400, { error: { message: 'bad request' } }),
+        jsonResponse(200, completion)
+      ]);
+
+      await expect(client.chat.completions.create(request)).rejects.toThrow(InvalidRequestError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+
+    test('should record the attempt count on the final error', async () => {
+      const { client, fetch } = createClient([
+        jsonResponse(500, { error: { message: 'boom' } }),
+        jsonResponse(500, { error: { message: 'boom' } })
+      ], { maxRetries: 1, initialDelay: 1 });
+
+      const error = await client.chat.completions.create(request).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.attempts).toBe(2);
+      expect(fetch).toHaveBeenCalledTimes(2);
+    });
+
+    test('should honour Retry-After on rate limit errors', async () => {
+      const { client } = createClient([
+        jsonResponse(429, { error: { message: 'slow down' } }, { 'retry-after-ms': '20' }),
+        jsonResponse(200, completion)
+      ], { initialDelay: 5000 });
+
+      const started = Date.now();
+      await client.chat.completions.create(request);
+      const elapsed = Date.now() - started;
+
+      expect(elapsed).toBeGreaterThanOrEqual(15);
+      expect(elapsed).toBeLessThan(2000);
+    });
+
+    test('should not retry when Retry-After exceeds maxDelay', async () => {
+      const { client, fetch } = createClient([
+        jsonResponse(429, { error: { message: 'slow down' } }, { 'retry-after': '3600' }),
+        jsonResponse(200, completion)
+      ], { maxDelay: 1000 });
+
+      const started = Date.now();
+      const error = await client.chat.completions.create(request).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(TooManyRequestsError);
+      expect(error.attempts).toBe(1);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    test('should stop waiting for a retry when the signal aborts', async () => {
+      const { client, fetch } = createClient([
+        jsonResponse(503, { error: { message: 'busy' } }),
+        jsonResponse(200, completion)
+      ], { initialDelay: 5000, maxDelay: 5000, jitter: 0 });
+      const controller = new AbortController();
+
+      const started = Date.now();
+      const pending = client.chat.completions.create(request, { signal: controller.signal });
+      setTimeout(() => controller.abort(), 20);
+      const error = await pending.catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(APIUserAbortError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+      expect(Date.now() - started).toBeLessThan(1000);
+    });
+
+    test('should respect a per-request retry override', async () => {
+      const { client, fetch } = createClient([
+        jsonResponse(429, { error: { message: 'slow down' } })
+      ]);
+
+      await expect(
+        client.request('POST', '/chat/completions', request, { retry: { maxRetries: 0 } })
+      ).rejects.toThrow(TooManyRequestsError);
+      expect(fetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Request options', () => {
+    const request: ChatCompletionRequestNonStreaming = {
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user', content: 'Hi' }]
+    };
+
+    function recordingClient() {
+      const calls: Array<{ url: string; init: any }> = [];
+      const fetch = async (url: string, init: any) => {
+        calls.push({ url, init });
+        const body = url.includes('/models') ? { object: 'list', data: [] } : { choices: [] };
+        return { ok: true, status: 200, headers: new Map(), json: async () => body };
+      };
+      return { client: new HAI({ apiKey: 'test-key', fetch }), calls };
+    }
+
+    test('should send extra headers, query parameters and the idempotency key', async () => {
+      const { client, calls } = recordingClient();
+
+      await client.chat.completions.create(request, {
+        headers: { 'X-Trace-Id': 'trace-1' },
+        query: { 'api-version': '2024-06', debug: true, skip: undefined },
+        idempotencyKey: 'key-123'
+      });
+
+      expect(calls[0].url).toBe('https://api.helpingai.co/v1/chat/completions?api-version=2024-06&debug=true');
+      expect(calls[0].init.headers).toEqual(expect.objectContaining({
+        'Authorization': 'Bearer test-key',
+        'X-Trace-Id': 'trace-1',
+        'Idempotency-Key': 'key-123'
+      }));
+    });
+
+    test('should reuse the idempotency key and honour the retry override', async () => {
+      const keys: string[] = [];
+      const fetch = async (_url: string, init: any) => {
+        keys.push(init.headers['Idempotency-Key']);
+        return { ok: false, status: 503, headers: new Map(), json: async () => ({ error: { message: 'busy' } }) };
+      };
+      const client = new HAI({ apiKey: 'test-key', fetch, retry: { maxRetries: 0 } });
+
+      await expect(client.chat.completions.create(request, {
+        idempotencyKey: 'key-456',
+        retry: { maxRetries: 2, initialDelay: 1, jitter: 0 }
+      })).rejects.toThrow(ServiceUnavailableError);
+      expect(keys).toEqual(['key-456', 'key-456', 'key-456']);
+    });
+
+    test('should use the per-request timeout and signal', async () => {
+      const fetch = (_url: string, init: any) => new Promise((_resolve, reject) => {
+        init.signal.addEventListener('abort', () => {
+          reject(Object.assign(new Error('aborted'), { name: 'AbortError' }));
+        });
+      });
+      const client = new HAI({ apiKey: 'test-key', fetch, timeout: 60000, retry: { maxRetries: 0 } });
+
+      await expect(client.chat.completions.create(request, { timeout: 5 })).rejects.toThrow(TimeoutError);
+
+      const controller = new AbortController();
+      const pending = client.chat.completions.create(request, { signal: controller.signal });
+      controller.abort();
+      await expect(pending).rejects.toBeInstanceOf(APIUserAbortError);
+    });
+
+    test('should remove its listener from the caller signal after each request', async () => {
+      const { client } = recordingClient();
+      const controller = new AbortController();
+
+      for (let i = 0; i < 3; i++) {
+        await client.chat.completions.create(request, { signal: controller.signal });
+      }
+
+      expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+    });
+
+    test('should not call fetch for an already aborted signal', async () => {
+      const { client, calls } = recordingClient();
+      const controller = new AbortController();
+      controller.abort();
+
+      const error = await client.chat.completions.create(request, { signal: controller.signal }).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(APIUserAbortError);
+      expect(calls).toHaveLength(0);
+    });
+
+    test('should pass options through models.list and models.retrieve', async () => {
+      const { client, calls } = recordingClient();
+
+      await client.models.list({ headers: { 'X-Trace-Id': 'trace-2' } });
+      await client.models.retrieve('custom-model', { query: { owner: 'me' } }).catch(() => undefined);
+
+      expect(calls[0].init.headers['X-Trace-Id']).toBe('trace-2');
+      expect(calls[1].url).toBe('https://api.helpingai.co/v1/models?owner=me');
+    });
+  });
+
+  describe('Raw responses', () => {
+    function clientWith(status: number, body: any) {
+      const response = {
+        ok: status >= 200 && status < 300,
+        status,
+        headers: new Map([['x-request-id', 'req_abc123'], ['x-ratelimit-remaining-requests', '59']]),
+        json: async () => body
+      };
+      return new HAI({ apiKey: 'test-key', fetch: async () => response, retry: { maxRetries: 0 } });
+    }
+
+    const request: ChatCompletionRequestNonStreaming = {
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user', content: 'Hi' }]
+    };
+
+    test('should return the data, raw response and request ID from withResponse()', async () => {
+      const client = clientWith(200, { id: 'chatcmpl-1', choices: [{ index: 0, message: { content: 'Hello!' } }] });
+
+      const { data, response, requestId } = await client.chat.completions.create(request).withResponse();
+
+      expect(data.choices[0].message?.content).toBe('Hello!');
+      expect(response.status).toBe(200);
+      expect(response.headers.get('x-ratelimit-remaining-requests')).toBe('59');
+      expect(requestId).toBe('req_abc123');
+    });
+
+    test('should resolve asResponse() to the unread response', async () => {
+      const client = clientWith(200, { choices: [] });
+
+      const response = await client.chat.completions.create(request).asResponse();
+
+      expect(response.status).toBe(200);
+      expect(await response.json()).toEqual({ choices: [] });
+    });
+
+    test('should set _requestId on completions', async () => {
+      const client = clientWith(200, { choices: [{ index: 0, message: { content: 'Hello!' } }] });
+
+      const completion = await client.chat.completions.create(request);
+
+      expect(completion._requestId).toBe('req_abc123');
+    });
+
+    test('should set requestId on errors', async () => {
+      const client = clientWith(500, { error: { message: 'boom' } });
+
+      const error = await client.chat.completions.create(request).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(ServerError);
+      expect(error.requestId).toBe('req_abc123');
+    });
+  });
+
+  describe('Messages', () => {
+    test('should accept assistant replies, tool results and content parts in the next request', async () => {
+      const bodies: any[] = [];
+      const fetch = async (_url: string, init: any) => {
+        bodies.push(JSON.parse(init.body));
+        return {
+          ok: true,
+          status: 200,
+          headers: new Map(),
+          json: async () => ({
+            choices: [{
+              index: 0,
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'describe', arguments: '{}' } }]
+              }
+            }]
+          })
+        };
+      };
+      const client = new HAI({ apiKey: 'test-key', fetch });
+
+      const messages: ChatCompletionMessageParam[] = [
+        { role: 'system', content: 'You are kind.' },
+        {
+          role: 'user',
+          name: 'asha',
+          content: [
+            { type: 'text', text: 'What is in this picture?' },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.png', detail: 'low' } }
+          ]
+        }
+      ];
+      const first = await client.chat.completions.create({ model: 'Helpingai3-raw', messages });
+      const reply = first.choices[0].message!;
+
+      messages.push(reply, { role: 'tool', tool_call_id: reply.tool_calls![0].id, content: 'A sleeping cat' });
+      await client.chat.completions.create({ model: 'Helpingai3-raw', messages });
+
+      expect(reply.role).toBe('assistant');
+      expect(bodies[1].messages.slice(2)).toEqual([
+        expect.objectContaining({ role: 'assistant', tool_calls: [expect.objectContaining({ id: 'call_1' })] }),
+        { role: 'tool', tool_call_id: 'call_1', content: 'A sleeping cat' }
+      ]);
+    });
+  });
 });
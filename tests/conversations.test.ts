@@ -0,0 +1,265 @@
+/**
+ * Tests for hai.conversations
+ */
+
+import { HAI, HAIError, Conversation, ChatCompletionMessageParam } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+/**
+ * Fake fetch that records each request body and answers with "reply N", or
+ * with the given replies in order.
+ */
+function createClient(replies: any[] = []) {
+  const bodies: any[] = [];
+  const fetch = async (_url: string, init: any) => {
+    const body = JSON.parse(init.body);
+    bodies.push(body);
+    const reply = replies.length > 0 ? replies.shift() : { role: 'assistant', content: `reply ${bodies.length}` };
+    if (reply instanceof Error) {
+      return { ok: false, status: 500, headers: new Map(), json: async () => ({ error: { message: reply.message } }) };
+    }
+    if (body.stream) {
+      async function* stream() {
+        yield Buffer.from(`data: ${JSON.stringify({ choices: [{ index: 0, delta: reply }] })}\n\ndata: [DONE]\n\n`);
+      }
+      return { ok: true, status: 200, headers: new Map(), body: stream() };
+    }
+    return { ok: true, status: 200, headers: new Map(), json: async () => ({ choices: [{ index: 0, message: reply }] }) };
+  };
+  return { client: new HAI({ apiKey: 'test-key', fetch, retry: { maxRetries: 0 } }), bodies };
+}
+
+// One token per message, so budgets count messages
+const countMessages = (messages: ChatCompletionMessageParam[]) => messages.length;
+
+describe('Conversations', () => {
+  test('should send the system prompt and history with each message', async () => {
+    const { client, bodies } = createClient();
+    const conversation = client.conversations.create({
+      model: 'Helpingai3-raw',
+      system: 'Be brief.',
+      params: { temperature: 0.2 }
+    });
+
+    const completion = await conversation.send('Hi');
+    await conversation.send('How are you?');
+
+    expect(completion.choices[0].message?.content).toBe('reply 1');
+    expect(bodies[1]).toEqual(expect.objectContaining({ model: 'Helpingai3-raw', temperature: 0.2 }));
+    expect(bodies[1].messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'reply 1' },
+      { role: 'user', content: 'How are you?' }
+    ]);
+    expect(conversation.messages).toHaveLength(4);
+    expect(conversation.turnCount).toBe(2);
+  });
+
+  test('should keep tool calls and continue after tool results', async () => {
+    const toolCall = { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Pune"}' } };
+    const { client, bodies } = createClient([
+      { role: 'assistant', content: null, tool_calls: [toolCall] },
+      { role: 'assistant', content: 'Sunny' }
+    ]);
+    const conversation = client.conversations.create({ model: 'Helpingai3-raw' });
+
+    await conversation.send('Weather in Pune?');
+    conversation.addToolResult('call_1', '{"sky":"clear"}');
+    await conversation.send();
+
+    expect(bodies[1].messages).toEqual([
+      { role: 'user', content: 'Weather in Pune?' },
+      { role: 'assistant', content: null, tool_calls: [toolCall] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"sky":"clear"}' }
+    ]);
+    expect(conversation.messages[3]).toEqual({ role: 'assistant', content: 'Sunny' });
+    expect(conversation.turnCount).toBe(1);
+  });
+
+  test('should never drop the turn being continued after tool results', async () => {
+    const toolCall = { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Pune"}' } };
+    const { client, bodies } = createClient([
+      { role: 'assistant', content: 'ok' },
+      { role: 'assistant', content: null, tool_calls: [toolCall] },
+      { role: 'assistant', content: 'Sunny' }
+    ]);
+    const conversation = client.conversations.create({ model: 'Helpingai3-raw', maxContextTokens: 2, countTokens: countMessages });
+
+    await conversation.send('Hi');
+    await conversation.send('Weather in Pune?');
+    conversation.addToolResult('call_1', '{"sky":"clear"}');
+    await conversation.send();
+
+    expect(bodies[2].messages).toEqual([
+      { role: 'user', content: 'Weather in Pune?' },
+      { role: 'assistant', content: null, tool_calls: [toolCall] },
+      { role: 'tool', tool_call_id: 'call_1', content: '{"sky":"clear"}' }
+    ]);
+    expect(conversation.messages.map(m => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    expect(conversation.messages[3]).toEqual({ role: 'assistant', content: 'Sunny' });
+  });
+
+  test('should leave the history unchanged when a request fails', async () => {
+    const { client } = createClient([new Error('Server exploded')]);
+    const conversation = client.conversations.create({ model: 'Helpingai3-raw' });
+
+    await expect(conversation.send('Hi')).rejects.toThrow(HAIError);
+    expect(conversation.messages).toEqual([]);
+  });
+
+  test('should keep trimmed turns when the request or the summary fails', async () => {
+    const ok = { role: 'assistant', content: 'ok' };
+    const { client } = createClient([ok, ok, new Error('Server exploded')]);
+    const conversation = client.conversations.create({ model: 'Helpingai3-raw', maxContextTokens: 3, countTokens: countMessages });
+    await conversation.send('one');
+    await conversation.send('two');
+    const before = conversation.messages;
+
+    await expect(conversation.send('three')).rejects.toThrow(HAIError);
+    expect(conversation.messages).toEqual(before);
+    expect(before).toHaveLength(4);
+
+    const summarizing = client.conversations.create({
+      model: 'Helpingai3-raw',
+      maxContextTokens: 3,
+      trimStrategy: 'summarize',
+      countTokens: countMessages,
+      summarize: async () => {
+        throw new Error('Summariser down');
+      },
+      messages: before
+    });
+
+    await expect(summarizing.send('three')).rejects.toThrow('Summariser down');
+    expect(summarizing.messages).toEqual(before);
+    expect(summarizing.summary).toBeUndefined();
+  });
+
+  test('should add a streamed reply when the stream ends', async () => {
+    const { client } = createClient([{ role: 'assistant', content: 'Hello there' }]);
+    const conversation = client.conversations.create({ model: 'Helpingai3-raw' });
+
+    const stream = await conversation.stream('Hi');
+    expect(conversation.messages).toEqual([]);
+
+    expect(await stream.finalContent()).toBe('Hello there');
+    expect(conversation.messages).toEqual([
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello there' }
+    ]);
+  });
+
+  test('should drop the oldest turns to fit maxContextTokens', async () => {
+    const { client, bodies } = createClient();
+    const conversation = client.conversations.create({
+      model: 'Helpingai3-raw',
+      system: 'Be brief.',
+      maxContextTokens: 4,
+      countTokens: countMessages
+    });
+
+    await conversation.send('one');
+    await conversation.send('two');
+    await conversation.send('three');
+
+    expect(bodies[2].messages.map((m: any) => m.content)).toEqual(['Be brief.', 'two', 'reply 2', 'three']);
+    expect(conversation.messages.map(m => m.content)).toEqual(['two', 'reply 2', 'three', 'reply 3']);
+  });
+
+  test('should reserve max_tokens from the budget', async () => {
+    const { client, bodies } = createClient();
+    const conversation = client.conversations.create({
+      model: 'Helpingai3-raw',
+      maxContextTokens: 4,
+      countTokens: countMessages,
+      params: { max_tokens: 2 }
+    });
+
+    await conversation.send('one');
+    await conversation.send('two');
+
+    expect(bodies[1].messages.map((m: any) => m.content)).toEqual(['two']);
+  });
+
+  test('should summarise trimmed turns with the summarize strategy', async () => {
+    const { client, bodies } = createClient();
+    const summarized: Array<{ messages: ChatCompletionMessageParam[]; previous?: string }> = [];
+    const conversation = client.conversations.create({
+      model: 'Helpingai3-raw',
+      maxContextTokens: 4,
+      trimStrategy: 'summarize',
+      countTokens: countMessages,
+      summarize: async (messages, previous) => {
+        summarized.push({ messages, previous });
+        return `summary ${summarized.length}`;
+      }
+    });
+
+    await conversation.send('one');
+    await conversation.send('two');
+    await conversation.send('three');
+
+    expect(summarized[0].messages.map(m => m.content)).toEqual(['one', 'reply 1']);
+    expect(summarized[0].previous).toBeUndefined();
+    expect(conversation.summary).toBe('summary 1');
+    expect(bodies[2].messages[0]).toEqual({ role: 'system', content: 'Summary of the earlier conversation: summary 1' });
+  });
+
+  test('should ask the model for a summary by default', async () => {
+    const { client, bodies } = createClient();
+    const conversation = client.conversations.create({
+      model: 'Helpingai3-raw',
+      maxContextTokens: 2,
+      trimStrategy: 'summarize',
+      countTokens: countMessages
+    });
+
+    await conversation.send('one');
+    await conversation.send('two');
+
+    expect(bodies).toHaveLength(3);
+    expect(bodies[1].messages[1].content).toBe('user: one\nassistant: reply 1');
+    expect(conversation.summary).toBe('reply 2');
+    expect(bodies[2].messages[0].content).toBe('Summary of the earlier conversation: reply 2');
+  });
+
+  test('should fork at a given turn without sharing history', async () => {
+    const { client, bodies } = createClient();
+    const conversation = client.conversations.create({ model: 'Helpingai3-raw' });
+    await conversation.send('one');
+    await conversation.send('two');
+
+    const fork = conversation.fork(1);
+    await fork.send('other');
+
+    expect(fork).toBeInstanceOf(Conversation);
+    expect(bodies[2].messages.map((m: any) => m.content)).toEqual(['one', 'reply 1', 'other']);
+    expect(conversation.turnCount).toBe(2);
+    expect(fork.turnCount).toBe(2);
+  });
+
+  test('should round-trip through JSON', async () => {
+    const { client, bodies } = createClient();
+    const conversation = client.conversations.create({
+      model: 'Helpingai3-raw',
+      system: 'Be brief.',
+      maxContextTokens: 1000,
+      params: { temperature: 0.5, hideThink: true }
+    });
+    await conversation.send('Hi');
+
+    const json = JSON.stringify(conversation);
+    const restored = client.conversations.fromJSON(json);
+    await restored.send('Again');
+
+    expect(JSON.parse(json)).toEqual(expect.objectContaining({ model: 'Helpingai3-raw', system: 'Be brief.' }));
+    expect(restored.maxContextTokens).toBe(1000);
+    expect(restored.params).toEqual({ temperature: 0.5, hideThink: true });
+    expect(bodies[1].messages.map((m: any) => m.content)).toEqual(['Be brief.', 'Hi', 'reply 1', 'Again']);
+  });
+});
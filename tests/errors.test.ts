@@ -16,13 +16,30 @@ import {
   APIConnectionError,
   APIError,
   ServerError,
-  ContentFilterError
+  ContentFilterError,
+  PermissionDeniedError,
+  NotFoundError,
+  ConflictError,
+  UnprocessableEntityError,
+  RequestTooLargeError,
+  TokenLimitError,
+  InvalidContentError,
+  APIUserAbortError,
+  StructuredOutputError,
+  HAIErrorCode,
+  isHAIError,
+  isRateLimitError,
+  isInvalidRequestError,
+  isAuthenticationError
 } from '../src/index';
+import { createErrorFromResponse } from '../src/errors';
 
 // Jest type declarations
 declare const describe: any;
 declare const test: any;
 declare const expect: any;
+declare const jest: any;
+declare const require: any;
 
 describe('Error Classes', () => {
   describe('HAIError', () => {
@@ -127,4 +144,220 @@ describe('Error Classes', () => {
       expect(error.shouldRetry).toBe(true);
     });
   });
+
+  describe('Error response mapping', () => {
+    test.each([
+      [400, InvalidRequestError],
+      [401, InvalidAPIKeyError],
+      [403, PermissionDeniedError],
+      [404, NotFoundError],
+      [408, TimeoutError],
+      [409, ConflictError],
+      [413, RequestTooLargeError],
+      [422, UnprocessableEntityError],
+      [429, TooManyRequestsError],
+      [500, ServerError],
+      [502, ServerError],
+      [503, ServiceUnavailableError],
+      [418, APIError]
+    ])('should map HTTP %i', (status: number, errorClass: any) => {
+      const error = createErrorFromResponse(status, { error: { message: 'Server says no' } });
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error.statusCode).toBe(status);
+    });
+
+    test.each([
+      ['context_length_exceeded', TokenLimitError],
+      ['invalid_content', InvalidContentError],
+      ['content_policy_violation', ContentFilterError],
+      ['model_not_found', InvalidModelError],
+      ['invalid_api_key', InvalidAPIKeyError]
+    ])('should prefer the error code %s over the status', (code: string, errorClass: any) => {
+      const error = createErrorFromResponse(400, { error: { message: 'Server says no', code } });
+
+      expect(error).toBeInstanceOf(errorClass);
+      expect(error.message).toBe('Server says no');
+    });
+
+    test('should map by type when there is no code or status', () => {
+      const error = createErrorFromResponse(undefined, { error: { message: 'Slow down', type: 'rate_limit_error' } });
+
+      expect(error).toBeInstanceOf(TooManyRequestsError);
+      expect(error.message).toBe('Slow down');
+    });
+
+    test('should map content filter types, including unlisted variants', () => {
+      const listed = createErrorFromResponse(400, { error: { message: 'Blocked', type: 'content_filter_error' } });
+      const variant = createErrorFromResponse(400, { error: { message: 'Blocked', type: 'Content_Filter_Violation' } });
+
+      expect(listed).toBeInstanceOf(ContentFilterError);
+      expect(variant).toBeInstanceOf(ContentFilterError);
+    });
+
+    test('should map a null payload by status', () => {
+      expect(createErrorFromResponse(502, null)).toBeInstanceOf(ServerError);
+      expect(createErrorFromResponse(418, null)).toBeInstanceOf(APIError);
+      expect(createErrorFromResponse(418, null).message).toBe('Unknown error');
+    });
+
+    test('should not treat every 400 mentioning a model as InvalidModelError', () => {
+      const error = createErrorFromResponse(400, { error: { message: 'temperature is not supported by this model' } });
+
+      expect(error).toBeInstanceOf(InvalidRequestError);
+      expect(error).not.toBeInstanceOf(InvalidModelError);
+    });
+
+    test('should keep the server message and model name on InvalidModelError', () => {
+      const body = { error: { message: "The model 'gpt-4' does not exist", param: 'model' } };
+      const error = createErrorFromResponse(404, body) as InvalidModelError;
+
+      expect(error).toBeInstanceOf(InvalidModelError);
+      expect(error.message).toBe("The model 'gpt-4' does not exist");
+      expect(error.model).toBe('gpt-4');
+      expect(error.body).toEqual(body);
+    });
+
+    test('should keep the server message on InvalidAPIKeyError', () => {
+      const error = createErrorFromResponse(401, { error: { message: 'API key revoked' } });
+
+      expect(error.message).toBe('API key revoked');
+    });
+
+    test('should fall back to default messages and keep the body and headers', () => {
+      const headers = { 'x-request-id': 'req_1' };
+      const error = createErrorFromResponse(403, { error: 'nope' }, headers);
+      const fallback = createErrorFromResponse(401, { message: '' } as any);
+
+      expect(error.message).toBe('nope');
+      expect(error.body).toEqual({ error: 'nope' });
+      expect(error.requestId).toBe('req_1');
+      expect(fallback.message).toContain('Invalid API key');
+    });
+  });
+
+  describe('Serialisation', () => {
+    test('should serialise the documented fields', () => {
+      const error = new TooManyRequestsError(429, { 'retry-after': '30', 'x-request-id': 'req_9' });
+
+      expect(JSON.parse(JSON.stringify(error))).toEqual({
+        name: 'TooManyRequestsError',
+        errorCode: HAIErrorCode.TooManyRequests,
+        message: 'Too many requests',
+        status: 429,
+        requestId: 'req_9',
+        retryAfter: 30
+      });
+    });
+
+    test('should rehydrate the original subclass', () => {
+      const original = createErrorFromResponse(400, {
+        error: { message: 'Bad temperature', type: 'invalid_request_error', code: 'invalid_value', param: 'temperature' }
+      }, { 'x-request-id': 'req_1' });
+
+      const error = HAIError.fromJSON(JSON.stringify(original)) as InvalidRequestError;
+
+      expect(error).toBeInstanceOf(InvalidRequestError);
+      expect(error).toBeInstanceOf(Error);
+      expect(error.name).toBe('InvalidRequestError');
+      expect(error.message).toBe('Bad temperature');
+      expect(error.statusCode).toBe(400);
+      expect(error.code).toBe('invalid_value');
+      expect(error.param).toBe('temperature');
+      expect(error.requestId).toBe('req_1');
+      expect(error.toJSON()).toEqual(original.toJSON());
+    });
+
+    test('should rebuild every class through its constructor', () => {
+      const headers = { 'x-request-id': 'req_2', 'retry-after': '5' };
+      const errors: HAIError[] = [
+        new HAIError('Base', { statusCode: 500 }),
+        new AuthenticationError('Bad auth', { statusCode: 401 }),
+        new NoAPIKeyError(),
+        new InvalidAPIKeyError(401, headers),
+        new PermissionDeniedError('No access', { statusCode: 403 }),
+        new InvalidRequestError('Bad param', { param: 'top_p', code: 'invalid_value', statusCode: 400 }),
+        new InvalidModelError('gpt-4', 404, headers),
+        new RateLimitError('Slow down', 429, headers),
+        new TooManyRequestsError(429, headers),
+        new ServiceUnavailableError(503, headers),
+        new TimeoutError('Timed out'),
+        new APIUserAbortError('Aborted'),
+        new APIConnectionError('Socket closed', true),
+        new APIError('Odd', 'odd_code', 'odd_type', 418, headers),
+        new NotFoundError('Missing', { code: 'not_found', statusCode: 404 }),
+        new ConflictError('Conflict', { statusCode: 409 }),
+        new ServerError('Boom', 500, headers),
+        new ContentFilterError('Filtered', 400),
+        new TokenLimitError('Too long', 400),
+        new InvalidContentError('Bad content', 400),
+        new UnprocessableEntityError('Unprocessable', { param: 'messages', statusCode: 422 }),
+        new RequestTooLargeError('Too large', { statusCode: 413 }),
+        new StructuredOutputError('Invalid output', '{"a":', ['Unexpected end of JSON input'])
+      ];
+      expect(new Set(errors.map(error => error.errorCode)).size).toBe(Object.keys(HAIErrorCode).length);
+
+      for (const original of errors) {
+        const error = HAIError.fromJSON(JSON.stringify(original));
+
+        expect(error.constructor).toBe(original.constructor);
+        expect(() => String(error)).not.toThrow();
+        expect(error.toString()).toBe(original.toString());
+        expect(error.toJSON()).toEqual(original.toJSON());
+      }
+    });
+
+    test('should keep subclass fields through a round trip', () => {
+      const model = HAIError.fromJSON(new InvalidModelError('gpt-4').toJSON()) as InvalidModelError;
+      const connection = HAIError.fromJSON(new APIConnectionError('Reset', true).toJSON()) as APIConnectionError;
+      const output = HAIError.fromJSON(new StructuredOutputError('x', 'c', ['e']).toJSON()) as StructuredOutputError;
+
+      expect(model.model).toBe('gpt-4');
+      expect(connection.shouldRetry).toBe(true);
+      expect(output.content).toBe('c');
+      expect(output.errors).toEqual(['e']);
+      expect(String(output)).toContain('x');
+    });
+
+    test('should fill in defaults for fields missing from older JSON', () => {
+      const output = HAIError.fromJSON({ name: 'StructuredOutputError', errorCode: HAIErrorCode.StructuredOutput, message: 'x' });
+
+      expect(output).toBeInstanceOf(StructuredOutputError);
+      expect((output as StructuredOutputError).errors).toEqual([]);
+      expect(() => output.toString()).not.toThrow();
+    });
+
+    test('should fall back to HAIError for unknown codes', () => {
+      const error = HAIError.fromJSON({ name: 'FutureError', errorCode: 'future' as HAIErrorCode, message: 'Later' });
+
+      expect(error.constructor).toBe(HAIError);
+      expect(error.name).toBe('FutureError');
+      expect(error.message).toBe('Later');
+    });
+  });
+
+  describe('Type guards', () => {
+    test('should match the class and its parent classes', () => {
+      const error = new TooManyRequestsError();
+
+      expect(error.errorCode).toBe(HAIErrorCode.TooManyRequests);
+      expect(isRateLimitError(error)).toBe(true);
+      expect(isHAIError(error)).toBe(true);
+      expect(isInvalidRequestError(error)).toBe(false);
+      expect(isHAIError(new Error('plain'))).toBe(false);
+      expect(isHAIError(null)).toBe(false);
+    });
+
+    test('should recognise errors from another copy of the SDK', () => {
+      let copy: any;
+      jest.isolateModules(() => {
+        copy = require('../src/errors');
+      });
+      const foreign = new copy.InvalidAPIKeyError(401);
+
+      expect(foreign).not.toBeInstanceOf(InvalidAPIKeyError);
+      expect(isAuthenticationError(foreign)).toBe(true);
+      expect(isRateLimitError(foreign)).toBe(false);
+    });
+  });
 });
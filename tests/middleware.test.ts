@@ -0,0 +1,122 @@
+/**
+ * Tests for the request middleware pipeline
+ */
+
+import { HAI, Middleware, APIConnectionError, InvalidRequestError } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+const request = {
+  model: 'Helpingai3-raw',
+  messages: [{ role: 'user' as const, content: 'Hello' }]
+};
+
+function okResponse(content: string = 'Hi') {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Map([['x-request-id', 'req_1']]),
+    json: async () => ({ choices: [{ index: 0, message: { role: 'assistant', content } }] })
+  };
+}
+
+describe('Middleware', () => {
+  test('should run in order and let middleware change the outgoing request', async () => {
+    const calls: any[] = [];
+    const order: string[] = [];
+    const fetch = async (url: string, init: any) => {
+      calls.push({ url, ...init });
+      return okResponse();
+    };
+    const tracing: Middleware = async (req, next) => {
+      order.push('tracing:before');
+      const response = await next({ ...req, headers: { ...req.headers, 'X-Trace-Id': 'trace-123' } });
+      order.push('tracing:after');
+      return response;
+    };
+    const redact: Middleware = async (req, next) => {
+      order.push('redact');
+      return next({ ...req, body: { ...req.body, user: 'redacted' }, url: `${req.url}?source=test` });
+    };
+    const client = new HAI({ apiKey: 'test-key', fetch, retry: { maxRetries: 0 }, middleware: [tracing, redact] });
+
+    await client.chat.completions.create({ ...request, user: 'alice@example.com' });
+
+    expect(order).toEqual(['tracing:before', 'redact', 'tracing:after']);
+    expect(calls[0].url).toBe('https://api.helpingai.co/v1/chat/completions?source=test');
+    expect(calls[0].headers['X-Trace-Id']).toBe('trace-123');
+    expect(JSON.parse(calls[0].body).user).toBe('redacted');
+  });
+
+  test('should see the raw response and be able to replace it', async () => {
+    const statuses: number[] = [];
+    const fetch = async () => okResponse('original');
+    const inspect: Middleware = async (req, next) => {
+      const response = await next(req);
+      statuses.push(response.status);
+      const data = await response.json();
+      data.choices[0].message.content = data.choices[0].message.content.toUpperCase();
+      return { ...response, json: async () => data };
+    };
+    const client = new HAI({ apiKey: 'test-key', fetch, middleware: [inspect] });
+
+    const completion = await client.chat.completions.create(request);
+
+    expect(statuses).toEqual([200]);
+    expect(completion.choices[0].message?.content).toBe('ORIGINAL');
+  });
+
+  test('should short-circuit with a synthetic response', async () => {
+    let fetched = 0;
+    const fetch = async () => {
+      fetched++;
+      return okResponse('from network');
+    };
+    const cache: Middleware = async () => okResponse('from cache');
+    const client = new HAI({ apiKey: 'test-key', fetch, middleware: [cache] });
+
+    const completion = await client.chat.completions.create(request);
+
+    expect(fetched).toBe(0);
+    expect(completion.choices[0].message?.content).toBe('from cache');
+  });
+
+  test('should turn synthetic error responses into API errors', async () => {
+    const reject: Middleware = async () => ({
+      ok: false,
+      status: 400,
+      headers: new Map(),
+      json: async () => ({ error: { message: 'Blocked by policy' } })
+    });
+    const client = new HAI({ apiKey: 'test-key', fetch: async () => okResponse(), middleware: [reject] });
+
+    await expect(client.chat.completions.create(request)).rejects.toThrow(InvalidRequestError);
+  });
+
+  test('should see fetch errors and run again on each retry', async () => {
+    const seen: string[] = [];
+    const fetch = async () => {
+      throw Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    };
+    const observe: Middleware = async (req, next) => {
+      try {
+        return await next(req);
+      } catch (error: any) {
+        seen.push(error.code);
+        throw error;
+      }
+    };
+    const client = new HAI({
+      apiKey: 'test-key',
+      fetch,
+      retry: { maxRetries: 1, initialDelay: 1, jitter: 0 },
+      middleware: [observe]
+    });
+
+    await expect(client.chat.completions.create(request)).rejects.toThrow(APIConnectionError);
+    expect(seen).toEqual(['ECONNREFUSED', 'ECONNREFUSED']);
+  });
+});
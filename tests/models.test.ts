@@ -0,0 +1,147 @@
+/**
+ * Tests for the Models resource
+ */
+
+import { HAI, HAIError, InvalidModelError, AuthenticationError, APIUserAbortError } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const afterEach: any;
+declare const jest: any;
+
+const modelList = {
+  object: 'list',
+  data: [
+    {
+      id: 'Helpingai3-raw',
+      object: 'model',
+      created: 1717000000,
+      owned_by: 'helpingai',
+      context_length: 65536,
+      capabilities: { tools: true, reasoning: false, json_mode: true }
+    },
+    { id: 'Dhanishtha-2.0-preview', object: 'model', owned_by: 'helpingai' }
+  ]
+};
+
+function createClient(responses: any[], options: Record<string, any> = {}) {
+  const calls: Array<{ url: string; init: any }> = [];
+  const fetch = async (url: string, init: any) => {
+    calls.push({ url, init });
+    const response = responses.length > 1 ? responses.shift() : responses[0];
+    if (response instanceof Error) {
+      throw response;
+    }
+    if (typeof response === 'number') {
+      return { ok: false, status: response, headers: new Map(), json: async () => ({ error: { message: `HTTP ${response}` } }) };
+    }
+    return { ok: true, status: 200, headers: new Map(), json: async () => response };
+  };
+  return { client: new HAI({ apiKey: 'test-key', fetch, retry: { maxRetries: 0 }, ...options }), calls };
+}
+
+describe('Models', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should parse model metadata from the API', async () => {
+    const { client, calls } = createClient([modelList]);
+
+    const models = await client.models.list();
+
+    expect(calls[0].init.method).toBe('GET');
+    expect(calls[0].init.body).toBeUndefined();
+    expect(models[0]).toEqual(expect.objectContaining({
+      id: 'Helpingai3-raw',
+      name: 'HelpingAI3 Raw',
+      created: 1717000000,
+      owned_by: 'helpingai',
+      contextWindow: 65536,
+      capabilities: { tools: true, reasoning: false, json_mode: true }
+    }));
+    expect(models[1].contextWindow).toBe(32768);
+    expect(models[1].capabilities).toBeUndefined();
+  });
+
+  test('should accept a bare list of model IDs', async () => {
+    const { client } = createClient([['Helpingai3-raw', 'custom-model']]);
+
+    const models = await client.models.list();
+
+    expect(models.map(model => model.id)).toEqual(['Helpingai3-raw', 'custom-model']);
+    expect(models[1]).toEqual(expect.objectContaining({ name: 'custom-model', object: 'model' }));
+  });
+
+  test('should cache the list until the TTL expires', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const { client, calls } = createClient([modelList], { models: { cacheTTL: 1000 } });
+
+    await Promise.all([client.models.list(), client.models.list()]);
+    await client.models.retrieve('Dhanishtha-2.0-preview');
+    expect(calls).toHaveLength(1);
+
+    jest.setSystemTime(1001);
+    await client.models.list();
+    expect(calls).toHaveLength(2);
+
+    client.models.clearCache();
+    await client.models.list();
+    expect(calls).toHaveLength(3);
+  });
+
+  test('should not fail other callers when the first caller aborts', async () => {
+    const { client, calls } = createClient([modelList]);
+    const controller = new AbortController();
+
+    const first = client.models.list({ signal: controller.signal });
+    const second = client.models.list();
+    controller.abort();
+
+    await expect(first).rejects.toThrow(APIUserAbortError);
+    expect((await second).map(model => model.id)).toEqual(['Helpingai3-raw', 'Dhanishtha-2.0-preview']);
+    expect(calls).toHaveLength(1);
+    expect(calls[0].init.signal.aborted).toBe(false);
+  });
+
+  test('should throw InvalidModelError for unknown IDs', async () => {
+    const { client } = createClient([modelList]);
+
+    await expect(client.models.retrieve('gpt-4')).rejects.toThrow(InvalidModelError);
+  });
+
+  test('should surface API failures as HAIErrors', async () => {
+    const { client } = createClient([503]);
+
+    await expect(client.models.list()).rejects.toThrow(HAIError);
+    await expect(client.models.retrieve('Helpingai3-raw')).rejects.toThrow(HAIError);
+  });
+
+  test('should reject a malformed response', async () => {
+    const { client } = createClient([{ choices: [] }]);
+
+    await expect(client.models.list()).rejects.toThrow('Unexpected response from the models endpoint');
+  });
+
+  test('should fall back to built-in models when opted in and offline', async () => {
+    const { client, calls } = createClient([Object.assign(new Error('getaddrinfo ENOTFOUND'), { code: 'ENOTFOUND' }), modelList], {
+      models: { offlineFallback: true }
+    });
+
+    const models = await client.models.list();
+    expect(models.map(model => model.id)).toEqual(['Helpingai3-raw', 'Dhanishtha-2.0-preview']);
+    expect(models[1].capabilities).toEqual({ reasoning: true });
+
+    // The fallback is not cached
+    await client.models.list();
+    expect(calls).toHaveLength(2);
+  });
+
+  test('should not fall back when the API rejects the request', async () => {
+    const { client } = createClient([401], { models: { offlineFallback: true } });
+
+    await expect(client.models.list()).rejects.toThrow(AuthenticationError);
+  });
+});
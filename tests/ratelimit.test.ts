@@ -0,0 +1,146 @@
+/**
+ * Tests for rate limit tracking and client-side throttling
+ */
+
+import { HAI, APIUserAbortError, ChatCompletionRequestNonStreaming } from '../src/index';
+import { RateLimiter, parseDuration } from '../src/ratelimit';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const afterEach: any;
+declare const jest: any;
+
+const request: ChatCompletionRequestNonStreaming = {
+  model: 'Helpingai3-raw',
+  messages: [{ role: 'user', content: 'Hi' }]
+};
+
+function response(headers: Record<string, string>, body: any = { choices: [] }) {
+  return { ok: true, status: 200, headers: new Map(Object.entries(headers)), json: async () => body };
+}
+
+describe('Rate limits', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should parse plain seconds and duration reset values', () => {
+    expect(parseDuration('1.5')).toBe(1500);
+    expect(parseDuration('6m0s')).toBe(360000);
+    expect(parseDuration('1h2m3.5s')).toBe(3723500);
+    expect(parseDuration('20ms')).toBe(20);
+    expect(parseDuration('soon')).toBeUndefined();
+  });
+
+  test('should expose the latest x-ratelimit headers as hai.rateLimits', async () => {
+    const fetch = async () => response({
+      'x-ratelimit-limit-requests': '60',
+      'x-ratelimit-remaining-requests': '59',
+      'x-ratelimit-remaining-tokens': '149000',
+      'x-ratelimit-reset-requests': '1s'
+    });
+    const client = new HAI({ apiKey: 'test-key', fetch });
+
+    expect(client.rateLimits).toBeUndefined();
+    await client.chat.completions.create(request);
+
+    expect(client.rateLimits).toEqual(expect.objectContaining({
+      limitRequests: 60,
+      remainingRequests: 59,
+      remainingTokens: 149000,
+      resetRequests: 1000
+    }));
+  });
+
+  test('should queue requests beyond requestsPerMinute', async () => {
+    jest.useFakeTimers();
+    const sent: number[] = [];
+    const fetch = async () => {
+      sent.push(Date.now());
+      return response({});
+    };
+    const client = new HAI({ apiKey: 'test-key', fetch, rateLimit: { requestsPerMinute: 2 } });
+    const start = Date.now();
+
+    const all = Promise.all([1, 2, 3].map(() => client.chat.completions.create(request)));
+    await jest.advanceTimersByTimeAsync(0);
+    expect(sent).toHaveLength(2);
+
+    await jest.advanceTimersByTimeAsync(30000);
+    await all;
+    expect(sent).toHaveLength(3);
+    expect(sent[2] - start).toBe(30000);
+  });
+
+  test('should share one bucket between chat and models', async () => {
+    jest.useFakeTimers();
+    let calls = 0;
+    const fetch = async () => {
+      calls++;
+      return response({}, []);
+    };
+    const client = new HAI({ apiKey: 'test-key', fetch, rateLimit: { requestsPerMinute: 1 } });
+
+    const first = client.chat.completions.create(request);
+    const second = client.models.list();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(calls).toBe(1);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    await Promise.all([first, second]);
+    expect(calls).toBe(2);
+  });
+
+  test('should wait for the reset when the server reports no remaining requests', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter({ requestsPerMinute: 1000 });
+    limiter.update({ remainingRequests: 0, resetRequests: 5000, updatedAt: Date.now() });
+
+    let acquired = false;
+    limiter.acquire().then(() => { acquired = true; });
+    await jest.advanceTimersByTimeAsync(4999);
+    expect(acquired).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(acquired).toBe(true);
+  });
+
+  test('should drop a queued request when its signal aborts', async () => {
+    jest.useFakeTimers();
+    const sent: number[] = [];
+    const fetch = async () => {
+      sent.push(Date.now());
+      return response({});
+    };
+    const client = new HAI({ apiKey: 'test-key', fetch, rateLimit: { requestsPerMinute: 1 } });
+    const start = Date.now();
+    const controller = new AbortController();
+
+    const first = client.chat.completions.create(request);
+    const cancelled = client.chat.completions.create(request, { signal: controller.signal }).catch((e: any) => e);
+    const third = client.chat.completions.create(request);
+    await jest.advanceTimersByTimeAsync(1000);
+    controller.abort();
+
+    expect(await cancelled).toBeInstanceOf(APIUserAbortError);
+    await jest.advanceTimersByTimeAsync(59000);
+    await Promise.all([first, third]);
+    expect(sent).toHaveLength(2);
+    expect(sent[1] - start).toBe(60000);
+  });
+
+  test('should refund estimated tokens the request did not use', async () => {
+    jest.useFakeTimers();
+    const limiter = new RateLimiter({ tokensPerMinute: 1000 });
+
+    await limiter.acquire(1000);
+    limiter.settle(1000, 100);
+
+    let acquired = false;
+    limiter.acquire(900).then(() => { acquired = true; });
+    await jest.advanceTimersByTimeAsync(0);
+    expect(acquired).toBe(true);
+  });
+});
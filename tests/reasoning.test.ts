@@ -0,0 +1,98 @@
+/**
+ * Tests for <think> and <ser> reasoning extraction
+ */
+
+import { HAI, ChatCompletionChunk } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+const raw = '<think>The user feels tired.</think><ser>Emotion: fatigue\nResponse: gentle</ser>\n\nTake a short   rest.<think>Offer one tip</think> Drink water.';
+
+function completionClient(content: string) {
+  const fetch = async () => ({
+    ok: true,
+    status: 200,
+    headers: new Map(),
+    json: async () => ({ choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: 'stop' }] })
+  });
+  return new HAI({ apiKey: 'test-key', fetch });
+}
+
+function streamingClient(pieces: string[]) {
+  async function* body() {
+    for (const piece of pieces) {
+      const event = { choices: [{ index: 0, delta: { content: piece } }] };
+      yield Buffer.from(`data: ${JSON.stringify(event)}\n\n`);
+    }
+    yield Buffer.from('data: {"choices":[{"index":0,"delta":{},"finish_reason":"stop"}]}\n\ndata: [DONE]\n\n');
+  }
+  const fetch = async () => ({ ok: true, status: 200, headers: new Map(), body: body() });
+  return new HAI({ apiKey: 'test-key', fetch });
+}
+
+describe('Reasoning extraction', () => {
+  const request = {
+    model: 'Dhanishtha-2.0-preview',
+    messages: [{ role: 'user' as const, content: 'I am exhausted' }]
+  };
+
+  test('should expose think and ser segments on non-streamed completions', async () => {
+    const client = completionClient(raw);
+
+    const completion = await client.chat.completions.create(request);
+    const message = completion.choices[0].message!;
+
+    expect(message.content).toBe(raw);
+    expect(message.reasoning).toEqual(['The user feels tired.', 'Offer one tip']);
+    expect(message.ser).toEqual(['Emotion: fatigue\nResponse: gentle']);
+  });
+
+  test('should clean the content when extractReasoning is set', async () => {
+    const client = completionClient(raw);
+
+    const completion = await client.chat.completions.create({ ...request, extractReasoning: true });
+    const message = completion.choices[0].message!;
+
+    expect(message.content).toBe('Take a short rest. Drink water.');
+    expect(message.reasoning).toEqual(['The user feels tired.', 'Offer one tip']);
+  });
+
+  test('should tag streamed deltas with reasoning_content and ser_content', async () => {
+    const pieces = ['<thi', 'nk>The user ', 'feels tired.</think><s', 'er>Emotion: fatigue</ser>', 'Take a rest.'];
+    const client = streamingClient(pieces);
+
+    const stream = await client.chat.completions.create({ ...request, stream: true, extractReasoning: true });
+    const chunks: ChatCompletionChunk[] = [];
+    const thinking: string[] = [];
+    stream.on('thinking', delta => thinking.push(delta));
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    const deltas = chunks.map(chunk => chunk.choices[0].delta || {});
+    expect(deltas.map(delta => delta.reasoning_content || '').join('')).toBe('The user feels tired.');
+    expect(deltas.map(delta => delta.ser_content || '').join('')).toBe('Emotion: fatigue');
+    expect(deltas.map(delta => delta.content || '').join('')).toBe('Take a rest.');
+    expect(thinking.join('')).toBe('The user feels tired.');
+
+    const completion = await stream.finalChatCompletion();
+    expect(completion.choices[0].message?.reasoning).toEqual(['The user feels tired.']);
+    expect(completion.choices[0].message?.ser).toEqual(['Emotion: fatigue']);
+  });
+
+  test('should drop reasoning entirely with hideThink', async () => {
+    const client = streamingClient(['<think>secret</think>', 'Visible']);
+
+    const stream = await client.chat.completions.create({ ...request, stream: true, hideThink: true });
+    const chunks: ChatCompletionChunk[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.some(chunk => chunk.choices[0].delta?.reasoning_content)).toBe(false);
+    expect(chunks.map(chunk => chunk.choices[0].delta?.content || '').join('')).toBe('Visible');
+  });
+});
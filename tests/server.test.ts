@@ -0,0 +1,111 @@
+/**
+ * Tests for the mock API server
+ */
+
+import { HAI, AuthenticationError, InvalidModelError, ServiceUnavailableError, ChatCompletionChunk } from '../src/index';
+import { MockServer, MockServerOptions, mockToolCall } from '../src/testing';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const afterEach: any;
+
+const messages = [{ role: 'user' as const, content: 'Hello there' }];
+
+describe('MockServer', () => {
+  let server: MockServer;
+
+  async function start(options: MockServerOptions = {}) {
+    server = new MockServer(options);
+    const baseURL = await server.listen();
+    return new HAI({ apiKey: 'test-key', baseURL, retry: { maxRetries: 0 } });
+  }
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test('should echo the prompt, with reasoning for thinking models', async () => {
+    const client = await start();
+
+    const plain = await client.chat.completions.create({ model: 'Helpingai3-raw', messages });
+    const thinking = await client.chat.completions.create({ model: 'Dhanishtha-2.0-preview', messages, hideThink: true });
+
+    expect(plain.choices[0].message?.content).toBe('You said: Hello there');
+    expect(plain.usage?.prompt_tokens).toBeGreaterThan(0);
+    expect(thinking.choices[0].message?.content).toBe('You said: Hello there');
+    expect(server.requests[1].body.model).toBe('Dhanishtha-2.0-preview');
+  });
+
+  test('should echo think and ser blocks for reasoning models', async () => {
+    const client = await start();
+
+    const completion = await client.chat.completions.create({ model: 'Dhanishtha-2.0-preview', messages, extractReasoning: true });
+    const message = completion.choices[0].message;
+
+    expect(message?.content).toBe('You said: Hello there');
+    expect(message?.reasoning).toEqual(['The user wrote "Hello there".']);
+    expect(message?.ser).toEqual(['Emotion: neutral\nResponse: repeat it back']);
+  });
+
+  test('should stream scripted replies through the client', async () => {
+    const client = await start({ script: ['<think>Plan</think><ser>Calm</ser>Hi friend'] });
+
+    const stream = await client.chat.completions.create({ model: 'Helpingai3-raw', messages, stream: true, extractReasoning: true });
+    const chunks: ChatCompletionChunk[] = [];
+    stream.on('chunk', (chunk: ChatCompletionChunk) => chunks.push(chunk));
+    const completion = await stream.finalChatCompletion();
+
+    expect(chunks.length).toBeGreaterThan(3);
+    expect(completion.choices[0].message?.content).toBe('Hi friend');
+    expect(completion.choices[0].message?.reasoning).toEqual(['Plan']);
+    expect(completion.choices[0].message?.ser).toEqual(['Calm']);
+  });
+
+  test('should return scripted tool calls', async () => {
+    const client = await start();
+    server.reply({ tool_calls: [mockToolCall('get_weather', { city: 'Paris' }, 'call_1')] });
+    server.reply({ tool_calls: [mockToolCall('get_time', {}, 'call_2')] });
+
+    const completion = await client.chat.completions.create({ model: 'Helpingai3-raw', messages });
+    const stream = await client.chat.completions.create({ model: 'Helpingai3-raw', messages, stream: true });
+    const streamed = await stream.finalChatCompletion();
+
+    expect(completion.choices[0].message?.tool_calls?.[0].function.arguments).toBe('{"city":"Paris"}');
+    expect(streamed.choices[0].message?.tool_calls?.[0].id).toBe('call_2');
+    expect(streamed.choices[0].finish_reason).toBe('tool_calls');
+  });
+
+  test('should serve the model list', async () => {
+    const client = await start({ models: ['custom-model', { id: 'big-model', contextWindow: 128000 }] });
+
+    const models = await client.models.list();
+
+    expect(models.map(model => model.id)).toEqual(['custom-model', 'big-model']);
+    expect(models[1].contextWindow).toBe(128000);
+    await expect(client.chat.completions.create({ model: 'gpt-4', messages })).rejects.toThrow(InvalidModelError);
+  });
+
+  test('should inject scripted and random errors', async () => {
+    const client = await start({ script: [{ status: 503, message: 'Down for maintenance' }], errorRate: 1, errorStatus: 503 });
+
+    await expect(client.chat.completions.create({ model: 'Helpingai3-raw', messages })).rejects.toThrow('Down for maintenance');
+    await expect(client.chat.completions.create({ model: 'Helpingai3-raw', messages })).rejects.toThrow(ServiceUnavailableError);
+  });
+
+  test('should delay responses by the configured latency', async () => {
+    const client = await start({ latency: 50 });
+
+    const started = Date.now();
+    await client.chat.completions.create({ model: 'Helpingai3-raw', messages });
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(45);
+  });
+
+  test('should require the API key when set', async () => {
+    const client = await start({ apiKey: 'right-key' });
+
+    await expect(client.chat.completions.create({ model: 'Helpingai3-raw', messages })).rejects.toThrow(AuthenticationError);
+  });
+});
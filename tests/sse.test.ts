@@ -0,0 +1,128 @@
+/**
+ * Tests for Server-Sent Events decoding and stream handling
+ */
+
+import { HAI, HAIError, ServerError, ContentFilterError, ChatCompletionRequestStreaming } from '../src/index';
+import { LineDecoder, SSEDecoder, iterSSEMessages } from '../src/sse';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare class TextEncoder {
+  encode(input: string): Uint8Array;
+}
+
+function bodyFrom(chunks: string[]) {
+  const encoder = new TextEncoder();
+  return {
+    async *[Symbol.asyncIterator]() {
+      for (const chunk of chunks) {
+        yield encoder.encode(chunk);
+      }
+    }
+  };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+function streamingClient(chunks: string[]) {
+  const fetch = async () => ({
+    ok: true,
+    status: 200,
+    headers: new Map(),
+    body: bodyFrom(chunks)
+  });
+  return new HAI({ apiKey: 'test-key', fetch, retry: { maxRetries: 0 } });
+}
+
+describe('SSE decoding', () => {
+  describe('LineDecoder', () => {
+    test('should buffer partial lines across chunks', () => {
+      const decoder = new LineDecoder();
+      expect(decoder.decode('data: {"a"')).toEqual([]);
+      expect(decoder.decode(':1}\ndata: x')).toEqual(['data: {"a":1}']);
+      expect(decoder.flush()).toEqual(['data: x']);
+    });
+
+    test('should handle \\r\\n split across chunks', () => {
+      const decoder = new LineDecoder();
+      expect(decoder.decode('one\r')).toEqual([]);
+      expect(decoder.decode('\ntwo\rthree\n')).toEqual(['one', 'two', 'three']);
+    });
+  });
+
+  describe('SSEDecoder', () => {
+    test('should join multi-line data and read event, id and retry fields', () => {
+      const decoder = new SSEDecoder();
+      const lines = ['event: message', 'id: 7', 'retry: 3000', 'data: first', 'data:second', ''];
+      const events = lines.map(line => decoder.decode(line)).filter(Boolean);
+
+      expect(events).toEqual([{ event: 'message', data: 'first\nsecond', id: '7', retry: 3000 }]);
+    });
+
+    test('should ignore comments and empty events', () => {
+      const decoder = new SSEDecoder();
+      expect(decoder.decode(': keep-alive')).toBeNull();
+      expect(decoder.decode('')).toBeNull();
+    });
+  });
+
+  describe('iterSSEMessages', () => {
+    test('should decode events split at arbitrary byte boundaries', async () => {
+      const events = await collect(iterSSEMessages(bodyFrom(['da', 'ta: {"n":', '1}\r', '\n\r\n: ping\n\ndata: 2\n\n'])));
+      expect(events.map(e => e.data)).toEqual(['{"n":1}', '2']);
+    });
+
+    test('should dispatch a trailing event without a final blank line', async () => {
+      const events = await collect(iterSSEMessages(bodyFrom(['data: last'])));
+      expect(events.map(e => e.data)).toEqual(['last']);
+    });
+  });
+
+  describe('chat completion streams', () => {
+    const request: ChatCompletionRequestStreaming = {
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user', content: 'Hi' }],
+      stream: true
+    };
+
+    test('should parse chunks whose data lines span network reads', async () => {
+      const payload = JSON.stringify({ id: 'c1', choices: [{ index: 0, delta: { content: 'Hello' } }] });
+      const client = streamingClient([`data: ${payload.slice(0, 10)}`, `${payload.slice(10)}\n\n`, 'data: [DONE]\n\n']);
+
+      const chunks = await collect(await client.chat.completions.create(request));
+
+      expect(chunks).toHaveLength(1);
+      expect(chunks[0].choices[0].delta?.content).toBe('Hello');
+    });
+
+    test('should map in-stream error payloads to error classes', async () => {
+      const client = streamingClient([
+        'data: {"error": {"message": "overloaded", "status": 500}}\n\n'
+      ]);
+
+      await expect(collect(await client.chat.completions.create(request))).rejects.toThrow(ServerError);
+    });
+
+    test('should map error events by type when no status is given', async () => {
+      const client = streamingClient([
+        'event: error\ndata: {"error": {"message": "flagged", "type": "content_filter"}}\n\n'
+      ]);
+
+      await expect(collect(await client.chat.completions.create(request))).rejects.toThrow(ContentFilterError);
+    });
+
+    test('should raise HAIError for malformed payloads', async () => {
+      const client = streamingClient(['data: {not json}\n\n']);
+
+      await expect(collect(await client.chat.completions.create(request))).rejects.toThrow(HAIError);
+    });
+  });
+});
@@ -0,0 +1,261 @@
+/**
+ * Tests for the ChatCompletionStream helper
+ */
+
+import {
+  HAI,
+  HAIError,
+  APIUserAbortError,
+  TimeoutError,
+  ChatCompletionStream,
+  ChatCompletionChunk
+} from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+function chunk(delta: Record<string, any>, extra: Record<string, any> = {}): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    created: 1,
+    model: 'Dhanishtha-2.0-preview',
+    object: 'chat.completion.chunk',
+    choices: [{ index: 0, delta, finish_reason: extra.finish_reason }],
+    usage: extra.usage
+  };
+}
+
+function streamOf(chunks: ChatCompletionChunk[]): ChatCompletionStream {
+  async function* source() {
+    for (const item of chunks) {
+      yield item;
+    }
+  }
+  return new ChatCompletionStream(source());
+}
+
+describe('ChatCompletionStream', () => {
+  test('should find think blocks whose tags are split across chunks', async () => {
+    const stream = streamOf(['Hi <th', 'ink>Plan', ' a</thi', 'nk> and <x> ', '<think>more</think', '> done'].map(content => chunk({ content })));
+    const thinking: Array<[string, string]> = [];
+    stream.on('thinking', (delta, snapshot) => thinking.push([delta, snapshot]));
+
+    await stream.finalChatCompletion();
+
+    expect(thinking).toEqual([['Plan', 'Plan'], [' a', 'Plan a'], ['more', 'Plan amore']]);
+  });
+
+  test('should scan each delta once in long thinking streams', async () => {
+    const chunks = [chunk({ content: '<think>' })];
+    for (let i = 0; i < 40000; i++) {
+      chunks.push(chunk({ content: 'step ' }));
+    }
+    chunks.push(chunk({ content: '</think>Answer' }));
+    const stream = streamOf(chunks);
+    let last = '';
+    stream.on('thinking', (_delta, snapshot) => { last = snapshot; });
+
+    const started = Date.now();
+    await stream.finalChatCompletion();
+
+    expect(last).toHaveLength(5 * 40000);
+    expect(Date.now() - started).toBeLessThan(1000);
+  });
+
+  test('should merge chunks into a final chat completion', async () => {
+    const stream = streamOf([
+      chunk({ role: 'assistant', content: 'Hel' }),
+      chunk({ content: 'lo!' }),
+      chunk({}, { finish_reason: 'stop', usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } })
+    ]);
+
+    const completion = await stream.finalChatCompletion();
+
+    expect(completion.object).toBe('chat.completion');
+    expect(completion.choices[0].message).toEqual(expect.objectContaining({ role: 'assistant', content: 'Hello!' }));
+    expect(completion.choices[0].finish_reason).toBe('stop');
+    expect(completion.usage?.total_tokens).toBe(5);
+  });
+
+  test('should merge tool call fragments', async () => {
+    const stream = streamOf([
+      chunk({ tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"ci' } }] }),
+      chunk({ tool_calls: [{ index: 0, id: '', type: 'function', function: { name: '', arguments: 'ty":"Pune"}' } }] }),
+      chunk({}, { finish_reason: 'tool_calls' })
+    ]);
+
+    const toolCalls: any[] = [];
+    stream.on('toolCall', toolCall => toolCalls.push(toolCall));
+    const completion = await stream.finalChatCompletion();
+
+    expect(completion.choices[0].message?.tool_calls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Pune"}' } }
+    ]);
+    expect(toolCalls).toHaveLength(1);
+  });
+
+  test('should emit content, thinking and end events while iterating', async () => {
+    const stream = streamOf([
+      chunk({ content: '<think>Let me ' }),
+      chunk({ content: 'reason</thi' }),
+      chunk({ content: 'nk>Answer' })
+    ]);
+
+    const content: string[] = [];
+    const thinking: string[] = [];
+    let ended = false;
+    stream
+      .on('content', delta => content.push(delta))
+      .on('thinking', delta => thinking.push(delta))
+      .on('end', () => { ended = true; });
+
+    const chunks = [];
+    for await (const item of stream) {
+      chunks.push(item);
+    }
+
+    expect(chunks).toHaveLength(3);
+    expect(content.join('')).toBe('<think>Let me reason</think>Answer');
+    expect(thinking.join('')).toBe('Let me reason');
+    expect(ended).toBe(true);
+    expect(await stream.finalContent()).toBe('<think>Let me reason</think>Answer');
+  });
+
+  test('should reject and emit error when the source fails', async () => {
+    async function* source(): AsyncIterable<ChatCompletionChunk> {
+      yield chunk({ content: 'partial' });
+      throw new HAIError('connection lost');
+    }
+    const stream = new ChatCompletionStream(source());
+    const errors: Error[] = [];
+    stream.on('error', error => errors.push(error));
+
+    await expect(stream.finalChatCompletion()).rejects.toThrow('connection lost');
+    expect(errors).toHaveLength(1);
+  });
+
+  test('should stop iterating after abort', async () => {
+    const stream = streamOf([chunk({ content: 'a' }), chunk({ content: 'b' }), chunk({ content: 'c' })]);
+
+    const received: string[] = [];
+    for await (const item of stream) {
+      received.push(item.choices[0].delta?.content || '');
+      stream.abort();
+    }
+
+    expect(received).toEqual(['a']);
+    await expect(stream.finalChatCompletion()).rejects.toThrow(APIUserAbortError);
+  });
+
+  test('should not allow consuming twice', async () => {
+    const stream = streamOf([chunk({ content: 'a' })]);
+    await stream.finalChatCompletion();
+
+    await expect(stream.finalChatCompletion()).resolves.toBeDefined();
+    await expect(stream[Symbol.asyncIterator]().next()).rejects.toThrow('consumed');
+  });
+
+  test('should convert to a ReadableStream of JSON lines', async () => {
+    const stream = streamOf([chunk({ content: 'a' }), chunk({ content: 'b' })]);
+    const reader = stream.toReadableStream().getReader();
+    const decoder = new TextDecoder();
+
+    let text = '';
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      text += decoder.decode(value);
+    }
+
+    const lines = text.trim().split('\n').map(line => JSON.parse(line));
+    expect(lines.map(line => line.choices[0].delta.content)).toEqual(['a', 'b']);
+  });
+
+  test('should explain when web streams are not available', () => {
+    const stream = streamOf([chunk({ content: 'a' })]);
+    const globals = globalThis as any;
+    const original = globals.ReadableStream;
+    delete globals.ReadableStream;
+    try {
+      expect(() => stream.toReadableStream()).toThrow(HAIError);
+      expect(() => stream.toReadableStream()).toThrow('Node.js 18 or later');
+    } finally {
+      globals.ReadableStream = original;
+    }
+  });
+
+  test('should be returned by create() when stream is true', async () => {
+    async function* body() {
+      yield Buffer.from('data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\ndata: [DONE]\n\n');
+    }
+    const fetch = async () => ({ ok: true, status: 200, headers: new Map(), body: body() });
+    const client = new HAI({ apiKey: 'test-key', fetch });
+
+    const stream = await client.chat.completions.create({
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user', content: 'Hello' }],
+      stream: true
+    });
+
+    expect(stream).toBeInstanceOf(ChatCompletionStream);
+    expect(await stream.finalContent()).toBe('Hi');
+  });
+
+  describe('cancellation', () => {
+    const request = {
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user' as const, content: 'Hello' }],
+      stream: true as const
+    };
+
+    function stallingClient(options: Record<string, any> = {}) {
+      const signals: any[] = [];
+      async function* body() {
+        yield Buffer.from('data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n');
+        await new Promise(() => undefined);
+      }
+      const fetch = async (_url: string, init: any) => {
+        signals.push(init.signal);
+        return { ok: true, status: 200, headers: new Map(), body: body() };
+      };
+      return { client: new HAI({ apiKey: 'test-key', fetch, ...options }), signals };
+    }
+
+    test('should time out a stream that stops sending data', async () => {
+      const { client, signals } = stallingClient({ idleTimeout: 20 });
+
+      const stream = await client.chat.completions.create(request);
+      const received: string[] = [];
+      const error = await (async () => {
+        for await (const item of stream) {
+          received.push(item.choices[0].delta?.content || '');
+        }
+      })().catch((e: any) => e);
+
+      expect(received).toEqual(['Hi']);
+      expect(error).toBeInstanceOf(TimeoutError);
+      expect(signals[0].aborted).toBe(true);
+    });
+
+    test('should take the idle timeout from the request options', async () => {
+      const { client } = stallingClient({ idleTimeout: 60000 });
+
+      const stream = await client.chat.completions.create(request, { idleTimeout: 10 });
+
+      await expect(stream.finalChatCompletion()).rejects.toThrow(TimeoutError);
+    });
+
+    test('should abort a running stream from the caller signal', async () => {
+      const { client, signals } = stallingClient();
+      const controller = new AbortController();
+
+      const stream = await client.chat.completions.create(request, { signal: controller.signal });
+      stream.on('content', () => controller.abort());
+
+      await expect(stream.finalChatCompletion()).rejects.toThrow(APIUserAbortError);
+      expect(signals[0].aborted).toBe(true);
+    });
+  });
+});
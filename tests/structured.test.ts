@@ -0,0 +1,167 @@
+/**
+ * Tests for structured outputs
+ */
+
+import {
+  HAI,
+  StructuredOutputError,
+  jsonSchemaResponseFormat,
+  validateJSONSchema
+} from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+interface Mood {
+  mood: 'calm' | 'anxious' | 'happy';
+  intensity: number;
+  notes?: string[];
+}
+
+const moodSchema = {
+  type: 'object',
+  properties: {
+    mood: { type: 'string', enum: ['calm', 'anxious', 'happy'] },
+    intensity: { type: 'integer', minimum: 1, maximum: 10 },
+    notes: { type: 'array', items: { type: 'string' } }
+  },
+  required: ['mood', 'intensity'],
+  additionalProperties: false
+};
+
+function clientReturning(content: string | null, finishReason: string = 'stop') {
+  const bodies: any[] = [];
+  const fetch = async (_url: string, init: any) => {
+    bodies.push(JSON.parse(init.body));
+    return {
+      ok: true,
+      status: 200,
+      headers: new Map(),
+      json: async () => ({
+        choices: [{ index: 0, message: { role: 'assistant', content }, finish_reason: finishReason }]
+      })
+    };
+  };
+  return { client: new HAI({ apiKey: 'test-key', fetch }), bodies };
+}
+
+describe('Structured outputs', () => {
+  describe('validateJSONSchema', () => {
+    test('should accept values that match the schema', () => {
+      expect(validateJSONSchema({ mood: 'calm', intensity: 3, notes: ['tea'] }, moodSchema)).toEqual([]);
+    });
+
+    test('should report every problem with a path', () => {
+      const errors = validateJSONSchema({ mood: 'sleepy', intensity: 11.5, extra: true }, moodSchema);
+
+      expect(errors).toEqual([
+        "$.mood: must be one of \"calm\", \"anxious\", \"happy\"",
+        '$.intensity: expected integer, got number',
+        "$: unexpected property 'extra'"
+      ]);
+    });
+
+    test('should resolve local $refs', () => {
+      const schema = {
+        type: 'object',
+        properties: { entries: { type: 'array', items: { $ref: '#/$defs/entry' } } },
+        $defs: { entry: { type: 'object', required: ['text'] } }
+      };
+
+      expect(validateJSONSchema({ entries: [{ text: 'a' }, {}] }, schema)).toEqual([
+        "$.entries[1]: missing required property 'text'"
+      ]);
+    });
+  });
+
+  describe('chat.completions.parse', () => {
+    test('should send the json_schema response format and return parsed content', async () => {
+      const { client, bodies } = clientReturning('<think>Checking the tone</think>{"mood": "calm", "intensity": 2}');
+
+      const completion = await client.chat.completions.parse({
+        model: 'Dhanishtha-2.0-preview',
+        messages: [{ role: 'user', content: 'How do I sound?' }],
+        response_format: jsonSchemaResponseFormat<Mood>('mood', moodSchema)
+      });
+
+      expect(bodies[0].response_format).toEqual({
+        type: 'json_schema',
+        json_schema: { name: 'mood', schema: moodSchema, strict: true }
+      });
+      const parsed: Mood | null = completion.choices[0].message.parsed;
+      expect(parsed).toEqual({ mood: 'calm', intensity: 2 });
+    });
+
+    test('should keep whitespace inside JSON string values', async () => {
+      const { client } = clientReturning('<think>Write the code</think>\n\n{"code": "if (x) {\\n    return  1;\\n}"}');
+
+      const completion = await client.chat.completions.parse({
+        model: 'Dhanishtha-2.0-preview',
+        messages: [{ role: 'user', content: 'Write it' }],
+        response_format: jsonSchemaResponseFormat<{ code: string }>('code', {
+          type: 'object',
+          properties: { code: { type: 'string' } },
+          required: ['code']
+        })
+      });
+
+      expect(completion.choices[0].message.parsed).toEqual({ code: 'if (x) {\n    return  1;\n}' });
+    });
+
+    test('should accept a plain json_schema response format', async () => {
+      const { client } = clientReturning('```json\n{"mood": "happy", "intensity": 8}\n```');
+
+      const completion = await client.chat.completions.parse({
+        model: 'Helpingai3-raw',
+        messages: [{ role: 'user', content: 'Classify' }],
+        response_format: { type: 'json_schema', json_schema: { name: 'mood', schema: moodSchema } }
+      });
+
+      expect(completion.choices[0].message.parsed).toEqual({ mood: 'happy', intensity: 8 });
+    });
+
+    test('should throw StructuredOutputError with the raw content on invalid output', async () => {
+      const { client } = clientReturning('{"mood": "calm"}');
+
+      const error = await client.chat.completions.parse({
+        model: 'Helpingai3-raw',
+        messages: [{ role: 'user', content: 'Classify' }],
+        response_format: jsonSchemaResponseFormat<Mood>('mood', moodSchema)
+      }).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.content).toBe('{"mood": "calm"}');
+      expect(error.errors).toEqual(["$: missing required property 'intensity'"]);
+    });
+
+    test('should throw on truncated output', async () => {
+      const { client } = clientReturning('{"mood": "ca', 'length');
+
+      await expect(client.chat.completions.parse({
+        model: 'Helpingai3-raw',
+        messages: [{ role: 'user', content: 'Classify' }],
+        response_format: jsonSchemaResponseFormat<Mood>('mood', moodSchema)
+      })).rejects.toThrow(StructuredOutputError);
+    });
+
+    test('should use a Zod-compatible validator when given', async () => {
+      const { client } = clientReturning('{"mood": "calm", "intensity": 20}');
+      const validator = {
+        safeParse: (data: any) => data.intensity <= 10
+          ? { success: true as const, data: data as Mood }
+          : { success: false as const, error: { issues: [{ path: ['intensity'], message: 'Too big' }] } }
+      };
+
+      const error = await client.chat.completions.parse({
+        model: 'Helpingai3-raw',
+        messages: [{ role: 'user', content: 'Classify' }],
+        response_format: jsonSchemaResponseFormat('mood', moodSchema, { validator })
+      }).catch((e: any) => e);
+
+      expect(error).toBeInstanceOf(StructuredOutputError);
+      expect(error.errors).toEqual(['$.intensity: Too big']);
+    });
+  });
+});
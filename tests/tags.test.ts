@@ -0,0 +1,133 @@
+/**
+ * Tests for the TagProcessor
+ */
+
+import { HAI, TagProcessor, ChatCompletionChunk } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+function chunk(choices: Array<{ index: number; content?: string; finish_reason?: string }>): ChatCompletionChunk {
+  return {
+    id: 'chatcmpl-1',
+    created: 1,
+    model: 'Dhanishtha-2.0-preview',
+    object: 'chat.completion.chunk',
+    choices: choices.map(choice => ({
+      index: choice.index,
+      delta: { content: choice.content },
+      finish_reason: choice.finish_reason
+    }))
+  };
+}
+
+async function collect(stream: AsyncIterable<ChatCompletionChunk>): Promise<ChatCompletionChunk[]> {
+  const chunks: ChatCompletionChunk[] = [];
+  for await (const item of stream) {
+    chunks.push(item);
+  }
+  return chunks;
+}
+
+describe('TagProcessor', () => {
+  describe('process', () => {
+    test('should drop, extract and pass through tags as configured', () => {
+      const processor = new TagProcessor({ tags: { think: 'drop', plan: 'extract', ser: 'pass' } });
+
+      const result = processor.process('<think>hidden</think><plan> step one </plan>Hello <ser>kept</ser>');
+
+      expect(result.content).toBe('Hello <ser>kept</ser>');
+      expect(result.extracted).toEqual({ plan: ['step one'] });
+    });
+
+    test('should leave whitespace alone when normalisation is off', () => {
+      const processor = new TagProcessor({ tags: { think: 'drop' }, normalizeWhitespace: false });
+
+      expect(processor.process('  A<think>x</think>\n\n\n\nB  ').content).toBe('  A\n\n\n\nB  ');
+    });
+
+    test('should build processors from presets', () => {
+      const processor = TagProcessor.extractReasoning().withTag('ser', 'drop');
+
+      expect(processor.process('<think>why</think><ser>feel</ser>Answer').extracted).toEqual({ think: ['why'] });
+    });
+  });
+
+  describe('processChunk', () => {
+    test('should handle tags split across chunks', () => {
+      const processor = new TagProcessor({ tags: { plan: 'extract' } });
+      const state = processor.createState();
+
+      const results = ['Hi <pl', 'an>a', 'b</pl', 'an> there'].map(text => processor.processChunk(state, text));
+
+      expect(results.map(r => r.content).join('')).toBe('Hi there');
+      expect(results.map(r => r.extracted.plan || '').join('')).toBe('ab');
+    });
+
+    test('should flush held-back text that was not a tag', () => {
+      const processor = TagProcessor.hideThink();
+      const state = processor.createState();
+
+      const first = processor.processChunk(state, 'a <th');
+      const rest = processor.flush(state);
+
+      expect(first.content + rest.content).toBe('a <th');
+    });
+  });
+
+  describe('processStream', () => {
+    test('should keep separate state per choice', async () => {
+      const processor = TagProcessor.extractReasoning();
+      const source = async function* () {
+        yield chunk([{ index: 0, content: '<think>zero' }, { index: 1, content: 'One ' }]);
+        yield chunk([{ index: 0, content: '</think>Zero' }, { index: 1, content: '<think>one</think>done' }]);
+        yield chunk([{ index: 0, finish_reason: 'stop' }, { index: 1, finish_reason: 'stop' }]);
+      };
+
+      const chunks = await collect(processor.processStream(source()));
+      const text = (index: number, field: 'content' | 'reasoning_content') => chunks
+        .flatMap(c => c.choices.filter(choice => choice.index === index))
+        .map(choice => (choice.delta && choice.delta[field]) || '')
+        .join('');
+
+      expect(text(0, 'content')).toBe('Zero');
+      expect(text(0, 'reasoning_content')).toBe('zero');
+      expect(text(1, 'content')).toBe('One done');
+      expect(text(1, 'reasoning_content')).toBe('one');
+    });
+
+    test('should put custom extracted tags in tag_content', async () => {
+      const processor = new TagProcessor({ tags: { plan: 'extract' } });
+      const source = async function* () {
+        yield chunk([{ index: 0, content: '<plan>go</plan>Ok' }]);
+      };
+
+      const chunks = await collect(processor.processStream(source()));
+
+      expect(chunks[0].choices[0].delta).toEqual(expect.objectContaining({ content: 'Ok', tag_content: { plan: 'go' } }));
+    });
+  });
+
+  test('should be used by create() when passed as tagProcessor', async () => {
+    const fetch = async () => ({
+      ok: true,
+      status: 200,
+      headers: new Map(),
+      json: async () => ({
+        choices: [{ index: 0, message: { role: 'assistant', content: '<plan>1. listen</plan>I hear you.' } }]
+      })
+    });
+    const client = new HAI({ apiKey: 'test-key', fetch });
+
+    const completion = await client.chat.completions.create({
+      model: 'Dhanishtha-2.0-preview',
+      messages: [{ role: 'user', content: 'Hi' }],
+      tagProcessor: new TagProcessor({ tags: { plan: 'extract' } })
+    });
+
+    expect(completion.choices[0].message?.content).toBe('I hear you.');
+    expect(completion.choices[0].message?.tags).toEqual({ plan: ['1. listen'] });
+  });
+});
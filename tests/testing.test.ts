@@ -0,0 +1,177 @@
+/**
+ * Tests for the helpingai/testing module
+ */
+
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { HAI, HAIError, NotFoundError, APIUserAbortError } from '../src/index';
+import { MockHAI, MockTransport, Cassette, mockToolCall } from '../src/testing';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+const request = { model: 'Helpingai3-raw', messages: [{ role: 'user' as const, content: 'Hi' }] };
+
+describe('MockHAI', () => {
+  test('should answer with queued completions in order', async () => {
+    const client = new MockHAI();
+    client.mock.complete('Hello').complete({ content: 'Again', usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 } });
+
+    const first = await client.chat.completions.create(request);
+    const second = await client.chat.completions.create({ ...request, temperature: 0.5 });
+
+    expect(first.choices[0].message?.content).toBe('Hello');
+    expect(second.usage?.total_tokens).toBe(4);
+    expect(client.mock.pending).toBe(0);
+    expect(client.mock.requests.map(r => r.path)).toEqual(['/chat/completions', '/chat/completions']);
+    expect(client.mock.requests[1].body.temperature).toBe(0.5);
+  });
+
+  test('should return tool calls', async () => {
+    const client = new MockHAI();
+    client.mock.complete({ tool_calls: [mockToolCall('get_weather', { city: 'Paris' }, 'call_1')] });
+
+    const completion = await client.chat.completions.create(request);
+
+    expect(completion.choices[0].finish_reason).toBe('tool_calls');
+    expect(completion.choices[0].message?.tool_calls).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }
+    ]);
+  });
+
+  test('should stream scripted chunks with think content and tool calls', async () => {
+    const client = new MockHAI();
+    client.mock.stream(['<think>Checking', ' the weather</think>', 'Let me look.', mockToolCall('get_weather', { city: 'Paris' }, 'call_1')]);
+
+    const stream = await client.chat.completions.create({ ...request, stream: true, extractReasoning: true });
+    const completion = await stream.finalChatCompletion();
+
+    expect(completion.choices[0].message?.content).toBe('Let me look.');
+    expect(completion.choices[0].message?.reasoning).toEqual(['Checking the weather']);
+    expect(completion.choices[0].message?.tool_calls?.[0].function.name).toBe('get_weather');
+    expect(completion.choices[0].finish_reason).toBe('tool_calls');
+  });
+
+  test('should surface queued errors as mapped HAIErrors', async () => {
+    const client = new MockHAI();
+    client.mock.error(404, 'No such thing', { code: 'not_found' });
+
+    const error = await client.chat.completions.create(request).catch(e => e);
+
+    expect(error).toBeInstanceOf(NotFoundError);
+    expect(error.message).toContain('No such thing');
+  });
+
+  test('should fail clearly when nothing is queued', async () => {
+    const client = new MockHAI();
+
+    await expect(client.chat.completions.create(request)).rejects.toThrow('No mock response queued for POST /chat/completions');
+  });
+
+  test('should serve raw JSON and work as a plain fetch', async () => {
+    const transport = new MockTransport('https://example.test/v1');
+    const client = new HAI({ apiKey: 'test-key', baseURL: 'https://example.test/v1', fetch: transport.fetch });
+    transport.json({ data: [{ id: 'custom-model' }] });
+
+    const models = await client.models.list();
+
+    expect(models.map(model => model.id)).toEqual(['custom-model']);
+    expect(transport.requests[0]).toEqual(expect.objectContaining({ method: 'GET', path: '/models' }));
+
+    transport.reset();
+    expect(transport.requests).toEqual([]);
+  });
+});
+
+describe('MockTransport', () => {
+  test('should reject an already aborted request without using the queue', async () => {
+    const transport = new MockTransport().complete('Hello');
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await transport.fetch('https://api.helpingai.co/v1/chat/completions', { signal: controller.signal }).catch(e => e);
+
+    expect(error.name).toBe('AbortError');
+    expect(transport.requests).toHaveLength(0);
+    expect(transport.pending).toBe(1);
+  });
+
+  test('should stop a pending body when the signal aborts', async () => {
+    const transport = new MockTransport().stream(['Hello', ' there']).json({ data: [] });
+    const controller = new AbortController();
+
+    const stream = await transport.fetch('https://api.helpingai.co/v1/chat/completions', { signal: controller.signal });
+    const json = await transport.fetch('https://api.helpingai.co/v1/models', { signal: controller.signal });
+    const chunks: string[] = [];
+    const reading = (async () => {
+      for await (const chunk of stream.body) {
+        chunks.push(chunk);
+        controller.abort();
+      }
+    })();
+
+    await expect(reading).rejects.toThrow('aborted');
+    await expect(json.json()).rejects.toThrow('aborted');
+    expect(chunks).toHaveLength(1);
+  });
+
+  test('should surface an abort through the client as APIUserAbortError', async () => {
+    const client = new MockHAI();
+    client.mock.stream(['Hello', ' there']);
+    const controller = new AbortController();
+
+    const stream = await client.chat.completions.create({ ...request, stream: true }, { signal: controller.signal });
+    controller.abort();
+
+    await expect(stream.finalContent()).rejects.toThrow(APIUserAbortError);
+  });
+});
+
+describe('Cassette', () => {
+  test('should record interactions and replay them offline', async () => {
+    const path = join(await fs.mkdtemp(join(tmpdir(), 'hai-cassette-')), 'cassettes', 'chat.json');
+    const live = new MockTransport();
+    live.complete('Recorded').stream(['Streamed ', 'reply']);
+
+    const recorder = new Cassette(path, { fetch: live.fetch });
+    const recording = new HAI({ apiKey: 'secret-key', fetch: recorder.fetch });
+    await recording.chat.completions.create(request);
+    const recordedStream = await recording.chat.completions.create({ ...request, stream: true });
+    expect(await recordedStream.finalContent()).toBe('Streamed reply');
+    await recorder.save();
+
+    const saved = await fs.readFile(path, 'utf8');
+    expect(saved).not.toContain('secret-key');
+
+    const player = new Cassette(path, { mode: 'replay' });
+    const replaying = new HAI({ apiKey: 'other-key', fetch: player.fetch });
+    const completion = await replaying.chat.completions.create(request);
+    const stream = await replaying.chat.completions.create({ ...request, stream: true });
+
+    expect(completion.choices[0].message?.content).toBe('Recorded');
+    expect(await stream.finalContent()).toBe('Streamed reply');
+    await expect(replaying.chat.completions.create(request)).rejects.toThrow(HAIError);
+  });
+
+  test('should record in auto mode when the file does not exist', async () => {
+    const path = join(await fs.mkdtemp(join(tmpdir(), 'hai-cassette-')), 'missing.json');
+    const live = new MockTransport().complete('Hi there');
+
+    const cassette = new Cassette(path, { fetch: live.fetch });
+    const client = new HAI({ apiKey: 'test-key', fetch: cassette.fetch });
+    await client.chat.completions.create(request);
+
+    expect(cassette.interactions).toHaveLength(1);
+    expect(live.requests).toHaveLength(1);
+  });
+
+  test('should reject a missing file in replay mode', async () => {
+    const cassette = new Cassette(join(tmpdir(), 'hai-no-such-cassette.json'), { mode: 'replay' });
+    const client = new HAI({ apiKey: 'test-key', fetch: cassette.fetch });
+
+    await expect(client.chat.completions.create(request)).rejects.toThrow('Cannot read cassette');
+  });
+});
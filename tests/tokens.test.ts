@@ -0,0 +1,108 @@
+/**
+ * Tests for offline token counting and the context window check
+ */
+
+import { HAI, TokenLimitError, ChatCompletionMessageParam } from '../src/index';
+import { countTextTokens } from '../src/tokens';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+
+function createClient(options: Record<string, any> = {}) {
+  let calls = 0;
+  const fetch = async (url: string) => {
+    calls++;
+    const body = url.endsWith('/models')
+      ? { data: [{ id: 'Helpingai3-raw', context_length: 131072 }] }
+      : { choices: [{ index: 0, message: { role: 'assistant', content: 'ok' } }] };
+    return { ok: true, status: 200, headers: new Map(), json: async () => body };
+  };
+  const client = new HAI({ apiKey: 'test-key', fetch, ...options });
+  return { client, calls: () => calls };
+}
+
+describe('Tokens', () => {
+  test('should approximate text tokens', () => {
+    expect(countTextTokens('')).toBe(0);
+    expect(countTextTokens('Hello world')).toBe(4);
+    expect(countTextTokens('in 2024, yes!')).toBe(6);
+    expect(countTextTokens('नमस्ते')).toBe(6);
+  });
+
+  test('should count messages with per-message overhead', () => {
+    const { client } = createClient();
+    const messages: ChatCompletionMessageParam[] = [
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'text', text: 'Describe' }, { type: 'image_url', image_url: { url: 'https://x/y.png' } }] }
+    ];
+
+    expect(client.tokens.count([])).toBe(3);
+    expect(client.tokens.count(messages, { model: 'Helpingai3-raw' })).toBe(3 + 4 + 4 + 4 + 2 + 85);
+  });
+
+  test('should include tool calls and tool definitions', () => {
+    const { client } = createClient();
+    const messages: ChatCompletionMessageParam[] = [{
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{}' } }]
+    }];
+    const tools = [{ type: 'function', function: { name: 'lookup', parameters: {} } }];
+
+    const withoutTools = client.tokens.count(messages);
+    expect(withoutTools).toBe(3 + 4 + 4 + 2 + 2);
+    expect(client.tokens.count(messages, { tools })).toBeGreaterThan(withoutTools);
+  });
+
+  test('should expose context windows on models', async () => {
+    const { client } = createClient();
+
+    expect(client.tokens.contextWindow('Dhanishtha-2.0-preview')).toBe(32768);
+    expect(client.tokens.contextWindow('unknown-model')).toBeUndefined();
+    expect((await client.models.retrieve('Helpingai3-raw')).contextWindow).toBe(131072);
+  });
+
+  test('should reject requests over the context window before sending', async () => {
+    const { client, calls } = createClient({ checkTokenLimit: true });
+
+    const request = client.chat.completions.create({
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user', content: 'Hi' }],
+      max_tokens: 32768
+    });
+
+    await expect(request).rejects.toThrow(TokenLimitError);
+    await expect(request).rejects.toThrow('exceeds the 32768-token context window of Helpingai3-raw');
+    expect(calls()).toBe(0);
+  });
+
+  test('should send requests that fit, or for unknown models', async () => {
+    const { client, calls } = createClient({ checkTokenLimit: true });
+
+    await client.chat.completions.create({ model: 'Helpingai3-raw', messages: [{ role: 'user', content: 'Hi' }], max_tokens: 1000 });
+    await client.chat.completions.create({ model: 'custom-model', messages: [{ role: 'user', content: 'Hi' }], max_tokens: 100000 });
+
+    expect(calls()).toBe(2);
+  });
+
+  test('should use the context window from the cached model list', async () => {
+    const { client, calls } = createClient({ checkTokenLimit: true, models: { cacheTTL: 60000 } });
+    const request = { model: 'Helpingai3-raw', messages: [{ role: 'user' as const, content: 'Hi' }], max_tokens: 40000 };
+
+    await expect(client.chat.completions.create(request)).rejects.toThrow(TokenLimitError);
+    await client.models.list();
+    await client.chat.completions.create(request);
+
+    expect(calls()).toBe(2);
+  });
+
+  test('should not check unless checkTokenLimit is set', async () => {
+    const { client, calls } = createClient();
+
+    await client.chat.completions.create({ model: 'Helpingai3-raw', messages: [{ role: 'user', content: 'Hi' }], max_tokens: 40000 });
+
+    expect(calls()).toBe(1);
+  });
+});
@@ -0,0 +1,211 @@
+/**
+ * Tests for the tool-calling runner
+ */
+
+import { HAI, HAIError, InvalidRequestError, ToolCallAccumulator, ChatCompletionMessageParam } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const jest: any;
+
+function completion(message: Record<string, any>, finishReason: string = 'stop') {
+  return {
+    ok: true,
+    status: 200,
+    headers: new Map(),
+    json: async () => ({
+      id: 'chatcmpl-1',
+      created: 1,
+      model: 'Helpingai3-raw',
+      choices: [{ index: 0, message: { role: 'assistant', ...message }, finish_reason: finishReason }]
+    })
+  };
+}
+
+function toolCall(id: string, name: string, args: Record<string, any> | string) {
+  return {
+    id,
+    type: 'function',
+    function: { name, arguments: typeof args === 'string' ? args : JSON.stringify(args) }
+  };
+}
+
+function createClient(responses: any[]) {
+  const fetch = jest.fn(async () => responses.shift());
+  const client = new HAI({ apiKey: 'test-key', fetch, retry: { maxRetries: 0 } });
+  return { client, fetch };
+}
+
+function sentBody(fetch: any, call: number) {
+  return JSON.parse(fetch.mock.calls[call][1].body);
+}
+
+describe('runTools', () => {
+  const messages: ChatCompletionMessageParam[] = [{ role: 'user', content: 'What is the weather in Pune and Delhi?' }];
+
+  test('should execute tool calls and loop until a final answer', async () => {
+    const { client, fetch } = createClient([
+      completion({
+        content: null,
+        tool_calls: [toolCall('call_1', 'getWeather', { city: 'Pune' }), toolCall('call_2', 'getWeather', { city: 'Delhi' })]
+      }, 'tool_calls'),
+      completion({ content: 'Pune is sunny and Delhi is hazy.' })
+    ]);
+    const getWeather = jest.fn(async ({ city }: { city: string }) => ({ city, sky: city === 'Pune' ? 'sunny' : 'hazy' }));
+
+    const run = await client.chat.completions.runTools({
+      model: 'Helpingai3-raw',
+      messages,
+      tools: [{
+        function: getWeather,
+        name: 'getWeather',
+        description: 'Current weather for a city',
+        parameters: { type: 'object', properties: { city: { type: 'string' } }, required: ['city'] }
+      }]
+    });
+
+    expect(run.content).toBe('Pune is sunny and Delhi is hazy.');
+    expect(run.iterations).toBe(2);
+    expect(getWeather).toHaveBeenCalledTimes(2);
+
+    const first = sentBody(fetch, 0);
+    expect(first.tools[0].function.name).toBe('getWeather');
+
+    const second = sentBody(fetch, 1);
+    expect(second.messages.slice(1)).toEqual([
+      expect.objectContaining({ role: 'assistant', tool_calls: expect.any(Array) }),
+      { role: 'tool', tool_call_id: 'call_1', content: '{"city":"Pune","sky":"sunny"}' },
+      { role: 'tool', tool_call_id: 'call_2', content: '{"city":"Delhi","sky":"hazy"}' }
+    ]);
+  });
+
+  test('should use the function name and custom parse', async () => {
+    const { client } = createClient([
+      completion({ tool_calls: [toolCall('call_1', 'shout', 'hello')] }, 'tool_calls'),
+      completion({ content: 'done' })
+    ]);
+    function shout(text: string) {
+      return text.toUpperCase();
+    }
+
+    const run = await client.chat.completions.runTools({
+      model: 'Helpingai3-raw',
+      messages,
+      tools: [{ function: shout, parse: (raw: string) => raw }]
+    });
+
+    expect(run.messages[run.messages.length - 2]).toEqual({ role: 'tool', tool_call_id: 'call_1', content: 'HELLO' });
+  });
+
+  test('should report tool errors back to the model', async () => {
+    const { client, fetch } = createClient([
+      completion({ tool_calls: [toolCall('call_1', 'fail', {}), toolCall('call_2', 'missing', {})] }, 'tool_calls'),
+      completion({ content: 'Sorry, I could not do that.' })
+    ]);
+
+    await client.chat.completions.runTools({
+      model: 'Helpingai3-raw',
+      messages,
+      tools: [{ name: 'fail', function: () => { throw new Error('database offline'); } }]
+    });
+
+    const toolMessages = sentBody(fetch, 1).messages.filter((m: any) => m.role === 'tool');
+    expect(toolMessages[0].content).toBe('Error: database offline');
+    expect(toolMessages[1].content).toContain("tool 'missing' is not available");
+  });
+
+  test('should stop after maxIterations', async () => {
+    const { client, fetch } = createClient([
+      completion({ tool_calls: [toolCall('call_1', 'noop', {})] }, 'tool_calls'),
+      completion({ tool_calls: [toolCall('call_2', 'noop', {})] }, 'tool_calls')
+    ]);
+
+    await expect(client.chat.completions.runTools({
+      model: 'Helpingai3-raw',
+      messages,
+      maxIterations: 2,
+      tools: [{ name: 'noop', function: () => 'ok' }]
+    })).rejects.toThrow(HAIError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  test('should reject anonymous tools', async () => {
+    const { client } = createClient([]);
+
+    await expect(client.chat.completions.runTools({
+      model: 'Helpingai3-raw',
+      messages,
+      tools: [{ function: (() => () => 'x')() }]
+    })).rejects.toThrow(InvalidRequestError);
+  });
+});
+
+describe('ToolCallAccumulator', () => {
+  function chunk(choiceIndex: number, toolCalls: any[]) {
+    return {
+      id: 'chatcmpl-1',
+      created: 1,
+      model: 'Helpingai3-raw',
+      object: 'chat.completion.chunk',
+      choices: [{ index: choiceIndex, delta: { tool_calls: toolCalls } }]
+    };
+  }
+
+  test('should merge fragments by index for each choice', () => {
+    const accumulator = new ToolCallAccumulator();
+    accumulator.add(chunk(0, [
+      { index: 0, id: 'call_1', type: 'function', function: { name: 'search', arguments: '' } },
+      { index: 1, id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{"id"' } }
+    ]));
+    accumulator.add(chunk(0, [{ index: 0, function: { arguments: '{"q":"calm"}' } }]));
+    const updated = accumulator.add(chunk(0, [{ index: 1, function: { arguments: ':7}' } }]));
+    accumulator.add(chunk(1, [{ index: 0, id: 'call_3', function: { name: 'other', arguments: '{}' } }]));
+
+    expect(updated).toEqual([
+      { choiceIndex: 0, toolCall: { id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{"id":7}' } } }
+    ]);
+    expect(accumulator.toolCalls(0).map(tc => tc.function.arguments)).toEqual(['{"q":"calm"}', '{"id":7}']);
+    expect(accumulator.toolCalls(1)[0].id).toBe('call_3');
+  });
+
+  test('should tolerate fragments without a function field', () => {
+    const accumulator = new ToolCallAccumulator();
+    accumulator.add(chunk(0, [{ index: 0, id: 'call_1' }]));
+    accumulator.add(chunk(0, [{ index: 0, function: { name: 'search', arguments: '{}' } }]));
+
+    expect(accumulator.toolCalls()).toEqual([
+      { id: 'call_1', type: 'function', function: { name: 'search', arguments: '{}' } }
+    ]);
+  });
+
+  test('should assemble streamed partial deltas from the API', async () => {
+    const events = [
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'search', arguments: '' } }] } }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"q":' } }] } }] },
+      { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"tea"}' } }] }, finish_reason: 'tool_calls' }] }
+    ];
+    async function* body() {
+      for (const event of events) {
+        yield Buffer.from(`data: ${JSON.stringify(event)}\n\n`);
+      }
+    }
+    const fetch = async () => ({ ok: true, status: 200, headers: new Map(), body: body() });
+    const client = new HAI({ apiKey: 'test-key', fetch });
+
+    const stream = await client.chat.completions.create({
+      model: 'Helpingai3-raw',
+      messages: [{ role: 'user', content: 'Find tea' }],
+      stream: true
+    });
+    const partial: string[] = [];
+    stream.on('toolCallDelta', toolCall => partial.push(toolCall.function.arguments));
+    const completion = await stream.finalChatCompletion();
+
+    expect(partial).toEqual(['', '{"q":', '{"q":"tea"}']);
+    expect(completion.choices[0].message?.tool_calls?.[0]).toEqual(
+      { id: 'call_1', type: 'function', function: { name: 'search', arguments: '{"q":"tea"}' } }
+    );
+  });
+});
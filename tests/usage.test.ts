@@ -0,0 +1,172 @@
+/**
+ * Tests for usage and cost tracking
+ */
+
+import { HAI, UsageRecord, ChatCompletionRequestNonStreaming } from '../src/index';
+
+// Jest type declarations
+declare const describe: any;
+declare const test: any;
+declare const expect: any;
+declare const afterEach: any;
+declare const jest: any;
+
+function request(user?: string, model: string = 'Helpingai3-raw'): ChatCompletionRequestNonStreaming {
+  return { model, messages: [{ role: 'user', content: 'Hi' }], user };
+}
+
+function createClient(options: Record<string, any> = {}) {
+  const bodies: any[] = [];
+  const fetch = async (_url: string, init: any) => {
+    const body = JSON.parse(init.body);
+    bodies.push(body);
+    if (body.stream) {
+      async function* stream() {
+        yield Buffer.from('data: {"choices":[{"index":0,"delta":{"content":"Hi"}}]}\n\n');
+        yield Buffer.from('data: {"choices":[],"usage":{"prompt_tokens":7,"completion_tokens":1,"total_tokens":8}}\n\n');
+        yield Buffer.from('data: [DONE]\n\n');
+      }
+      return { ok: true, status: 200, headers: new Map([['x-request-id', 'req_stream']]), body: stream() };
+    }
+    return {
+      ok: true,
+      status: 200,
+      headers: new Map(),
+      json: async () => ({
+        model: body.model,
+        choices: [{ index: 0, message: { role: 'assistant', content: 'Hello' } }],
+        usage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15 }
+      })
+    };
+  };
+  return { client: new HAI({ apiKey: 'test-key', fetch, ...options }), bodies };
+}
+
+describe('Usage tracking', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should be off unless enabled', async () => {
+    const { client, bodies } = createClient();
+
+    await client.chat.completions.create({ ...request(), stream: true });
+
+    expect(client.usage).toBeUndefined();
+    expect(bodies[0].stream_options).toBeUndefined();
+  });
+
+  test('should sum usage by model and user', async () => {
+    const { client } = createClient({ usage: true });
+
+    await client.chat.completions.create(request('alice'));
+    await client.chat.completions.create(request('bob'));
+    await client.chat.completions.create(request('alice', 'Dhanishtha-2.0-preview'));
+
+    const snapshot = client.usage?.snapshot();
+    expect(snapshot?.total).toEqual({ requests: 3, prompt_tokens: 30, completion_tokens: 15, total_tokens: 45, cost: 0 });
+    expect(snapshot?.byModel['Helpingai3-raw'].requests).toBe(2);
+    expect(snapshot?.byModel['Dhanishtha-2.0-preview'].total_tokens).toBe(15);
+    expect(snapshot?.byUser.alice.total_tokens).toBe(30);
+    expect(snapshot?.byUser.bob.requests).toBe(1);
+  });
+
+  test('should price usage from the price table', async () => {
+    const records: UsageRecord[] = [];
+    const { client } = createClient({
+      usage: {
+        prices: { 'Helpingai3-raw': { prompt: 2, completion: 8 } },
+        onUsage: (record: UsageRecord) => records.push(record)
+      }
+    });
+
+    await client.chat.completions.create(request());
+    await client.chat.completions.create(request(undefined, 'Dhanishtha-2.0-preview'));
+
+    expect(records[0].cost).toBeCloseTo((10 * 2 + 5 * 8) / 1e6);
+    expect(records[1].cost).toBeUndefined();
+    expect(client.usage?.snapshot().total.cost).toBeCloseTo(60 / 1e6);
+  });
+
+  test('should request and record usage for streams', async () => {
+    const records: UsageRecord[] = [];
+    const { client, bodies } = createClient({ usage: { onUsage: (record: UsageRecord) => records.push(record) } });
+
+    const stream = await client.chat.completions.create({ ...request('carol'), stream: true, hideThink: true });
+    expect(await stream.finalContent()).toBe('Hi');
+
+    expect(bodies[0].stream_options).toEqual({ include_usage: true });
+    expect(records).toEqual([expect.objectContaining({
+      model: 'Helpingai3-raw',
+      user: 'carol',
+      requestId: 'req_stream',
+      usage: { prompt_tokens: 7, completion_tokens: 1, total_tokens: 8 }
+    })]);
+  });
+
+  test('should not let a failing onUsage hook affect the request', async () => {
+    const onUsage = () => {
+      throw new Error('billing is down');
+    };
+    const { client } = createClient({ usage: { onUsage } });
+
+    const completion = await client.chat.completions.create(request());
+    const stream = await client.chat.completions.create({ ...request(), stream: true });
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(completion.choices[0].message?.content).toBe('Hello');
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(client.usage?.snapshot().total.requests).toBe(2);
+
+    const rejecting = createClient({ usage: { onUsage: async () => { throw new Error('async failure'); } } });
+    await expect(rejecting.client.chat.completions.create(request())).resolves.toBeDefined();
+  });
+
+  test('should keep explicit stream_options', async () => {
+    const { client, bodies } = createClient({ usage: true });
+
+    const stream = await client.chat.completions.create({ ...request(), stream: true, stream_options: { include_usage: false } });
+    await stream.finalChatCompletion();
+
+    expect(bodies[0].stream_options).toEqual({ include_usage: false });
+  });
+
+  test('should limit snapshots to a time window', async () => {
+    jest.useFakeTimers({ now: 1000000 });
+    const { client } = createClient({ usage: true });
+
+    await client.chat.completions.create(request());
+    jest.setSystemTime(1060000);
+    await client.chat.completions.create(request());
+
+    expect(client.usage?.snapshot({ since: 1030000 }).total.requests).toBe(1);
+    expect(client.usage?.snapshot({ until: new Date(1030000) }).total.requests).toBe(1);
+    expect(client.usage?.snapshot().total.requests).toBe(2);
+  });
+
+  test('should drop records after the retention period but keep totals', async () => {
+    jest.useFakeTimers({ now: 1000000 });
+    const { client } = createClient({ usage: { retention: 60000 } });
+
+    await client.chat.completions.create(request());
+    jest.setSystemTime(1100000);
+    await client.chat.completions.create(request());
+
+    expect(client.usage?.snapshot({ since: 0 }).total.requests).toBe(1);
+    expect(client.usage?.snapshot().total.requests).toBe(2);
+  });
+
+  test('should reset totals', async () => {
+    const { client } = createClient({ usage: true });
+    await client.chat.completions.create(request('alice'));
+
+    client.usage?.reset();
+
+    const snapshot = client.usage?.snapshot();
+    expect(snapshot?.total.requests).toBe(0);
+    expect(snapshot?.byUser).toEqual({});
+  });
+});